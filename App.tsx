@@ -1,18 +1,44 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppState, AppStep, Slide, SlideStatus } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState, AppStep, Slide, SlideSource, SlideStatus, BatchJob, OCRResult, OCRProviderSettings, OCRPageResult, SlideSizeSettings, ExportFormat } from './types';
 import StepUpload from './components/StepUpload';
 import StepMasking from './components/StepMasking';
 import StepResult from './components/StepResult';
 import StepApiKey from './components/StepApiKey';
 import ProcessingOverlay from './components/ProcessingOverlay';
-import { performOCR } from './services/geminiService';
-import { performInpainting, InpaintMode } from './services/openaiService'; 
-import { downloadPPTX } from './services/pptxService';
+import BatchDialog from './components/BatchDialog';
+import ApplyMaskDialog from './components/ApplyMaskDialog';
+import DeckAnalysisDialog from './components/DeckAnalysisDialog';
+import ExportDialog from './components/ExportDialog';
+import { performOCR, extractTextLayerOCR } from './services/ocrService';
+import {
+  loadOCRSettings, saveOCRSettings, clearOCRSettings, loadTranslationSettings, saveTranslationSettings,
+  loadSlideSizeSettings, saveSlideSizeSettings
+} from './services/settingsService';
+import { createModelTranslator, translatePage, needsTranslation } from './services/translationService';
+import { performInpainting, performRefinedInpainting, isAbortError, InpaintMode } from './services/openaiService'; 
+import {
+  downloadPPTX, ExportTextContent, SlideSize, DEFAULT_SLIDE_SIZE, DEFAULT_SLIDE_SIZE_SETTINGS, resolveSlideSize
+} from './services/pptxService';
+import { downloadSearchablePDF, PdfPageImage } from './services/pdfExportService';
+import { downloadMarkdown, downloadDOCX } from './services/textExportService';
+import { downloadOcrJson, importOcrJson } from './services/ocrJsonService';
+import { saveProject, openProject, PROJECT_FILE_EXTENSION } from './services/projectService';
+import { runJobQueue, autoProcessSlide, applyMaskToSlide, JobCancelledError, JobContext, JobQueueController } from './services/batchService';
+import { mergeMasks, buildMaskFromRegions, MaskPlacement, MaskRefinement } from './services/maskService';
+import { analyzeDeck, RepeatedRegion } from './services/deckAnalysisService';
+import { addVersion, restoreVersion, renameVersion, deleteVersion } from './services/versionService';
+import { saveSession, loadSession, clearSession, getSessionInfo, SessionInfo } from './services/sessionService';
 import { v4 as uuidv4 } from 'uuid'; // We need simple ID generation, can use Date.now() if no uuid lib
 
 const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
 
+const INPAINT_STATUS_TEXT: Record<InpaintMode, string> = {
+  chart: '正在進行色彩擴散...',
+  photo: '正在進行影像融合...',
+  texture: '正在合成紋理...',
+};
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>({
     step: AppStep.API_KEY, // Default to API Key step first
@@ -20,52 +46,122 @@ const App: React.FC = () => {
     activeSlideId: null,
     isGlobalProcessing: false,
     globalStatusText: '',
-    apiKey: '',
+    globalProgress: null,
+    ocrSettings: null,
+    translation: null,
+    slideSize: DEFAULT_SLIDE_SIZE_SETTINGS,
+    batch: null,
   });
 
+  const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  // Mask offered for applying to other slides; set while the apply-mask dialog is open
+  // `slideMasks` holds a narrower mask per slide (deck analysis: only the regions found on that slide)
+  const [applyMaskSource, setApplyMaskSource] = useState<{
+    maskSrc: string;
+    sourceSlideId: string | null;
+    slideIds?: string[];
+    slideMasks?: Record<string, string>;
+  } | null>(null);
+  // Deck analysis dialog: regions are null until the analysis has run
+  const [deckAnalysis, setDeckAnalysis] = useState<{ regions: RepeatedRegion[] | null } | null>(null);
+  // Resolved export size, used by the layout preview
+  const [slideSize, setSlideSize] = useState<SlideSize>(DEFAULT_SLIDE_SIZE);
+  const batchControllerRef = useRef<JobQueueController | null>(null);
+  const processingAbortRef = useRef<AbortController | null>(null);
+
+  // Autosaved session found on startup, waiting for the user to restore or discard it
+  const [restorableSession, setRestorableSession] = useState<SessionInfo | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
+
   // Check for stored API Key on Mount
   useEffect(() => {
-    const storedKey = localStorage.getItem('gemini_api_key');
-    if (storedKey) {
+    const storedSettings = loadOCRSettings();
+    const storedTranslation = loadTranslationSettings();
+    if (storedTranslation) {
+      setAppState(prev => ({ ...prev, translation: storedTranslation }));
+    }
+    const storedSlideSize = loadSlideSizeSettings();
+    if (storedSlideSize) {
+      setAppState(prev => ({ ...prev, slideSize: storedSlideSize }));
+    }
+    if (storedSettings) {
       setAppState(prev => ({
         ...prev,
-        apiKey: storedKey,
-        step: AppStep.UPLOAD // Go to upload if key exists
+        ocrSettings: storedSettings,
+        step: AppStep.UPLOAD // Go to upload if a provider is configured
       }));
     }
+
+    getSessionInfo()
+      .then(info => setRestorableSession(info))
+      .catch(e => console.warn("Session restore unavailable:", e))
+      .finally(() => setSessionChecked(true));
   }, []);
 
+  // "Match first slide" depends on the first image, so the size is resolved asynchronously
+  const firstImageSrc = appState.slides[0]?.originalImageSrc;
+  useEffect(() => {
+    let cancelled = false;
+    resolveSlideSize(appState.slideSize, appState.slides.slice(0, 1))
+      .then(size => { if (!cancelled) setSlideSize(size); });
+    return () => { cancelled = true; };
+  }, [appState.slideSize, firstImageSrc]);
+
+  // Autosave slides to IndexedDB (debounced).
+  // Held back while a previous session is still offered for restore, so it is not overwritten.
+  useEffect(() => {
+    if (!sessionChecked) return;
+    if (restorableSession) {
+      if (appState.slides.length === 0) return;
+      // The user started new work instead of restoring
+      setRestorableSession(null);
+    }
+
+    const timer = setTimeout(() => {
+      saveSession(appState.slides, appState.activeSlideId)
+        .catch(e => console.warn("Autosave failed:", e));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [appState.slides, appState.activeSlideId, sessionChecked, restorableSession]);
+
   // --- Actions ---
 
-  const handleSaveApiKey = (key: string) => {
-    localStorage.setItem('gemini_api_key', key);
+  const handleSaveApiKey = (settings: OCRProviderSettings) => {
+    saveOCRSettings(settings);
     setAppState(prev => ({
       ...prev,
-      apiKey: key,
-      step: AppStep.UPLOAD
+      ocrSettings: settings,
+      // Slides kept while the provider was changed are picked up where the user left them
+      step: prev.slides.length > 0 ? AppStep.EDITOR : AppStep.UPLOAD
     }));
   };
 
+  // Changing the provider keeps the slides; they are not tied to it (and are autosaved)
   const handleClearApiKey = () => {
-    localStorage.removeItem('gemini_api_key');
-    setAppState({
+    clearOCRSettings();
+    setAppState(prev => ({
+      ...prev,
       step: AppStep.API_KEY,
-      slides: [],
-      activeSlideId: null,
-      isGlobalProcessing: false,
-      globalStatusText: '',
-      apiKey: ''
-    });
+      ocrSettings: null
+    }));
   };
 
-  const handleImagesUpload = (images: string[]) => {
-    const newSlides: Slide[] = images.map(img => ({
+  const handleImagesUpload = (sources: SlideSource[]) => {
+    const newSlides: Slide[] = sources.map(source => ({
         id: generateId(),
-        originalImageSrc: img,
+        originalImageSrc: source.imageSrc,
+        textLayer: source.textLayer,
+        notes: source.notes || null,
         processedImageSrc: null,
         ocrData: [],
+        ocrTables: [],
         status: SlideStatus.PENDING,
-        isRefineMode: false
+        isRefineMode: false,
+        maskSrc: null,
+        errorMessage: null,
+        versions: [],
+        currentVersionId: null
     }));
 
     setAppState(prev => ({
@@ -114,32 +210,63 @@ const App: React.FC = () => {
       });
   };
 
-  const handleProcessingStart = async (maskBase64: string, mode: InpaintMode) => {
-    const { activeSlideId, slides, apiKey } = appState;
-    if (!activeSlideId) return;
+  const handleProcessingStart = async (maskBase64: string, mode: InpaintMode, fromOriginal: boolean = false, refinement: MaskRefinement | null = null) => {
+    const { activeSlideId, slides, ocrSettings, translation } = appState;
+    if (!activeSlideId || !ocrSettings) return;
 
     const currentSlideIndex = slides.findIndex(s => s.id === activeSlideId);
     if (currentSlideIndex === -1) return;
     const currentSlide = slides[currentSlideIndex];
 
-    setAppState(prev => ({ ...prev, isGlobalProcessing: true, globalStatusText: '正在初始化...' }));
+    const abortController = new AbortController();
+    processingAbortRef.current = abortController;
+    setAppState(prev => ({ ...prev, isGlobalProcessing: true, globalStatusText: '正在初始化...', globalProgress: null }));
 
     try {
       let currentOCRData = currentSlide.ocrData;
+      let currentTables = currentSlide.ocrTables;
 
-      // 1. OCR (Only if not in Refine Mode)
-      if (!currentSlide.isRefineMode) {
-          setAppState(prev => ({ ...prev, globalStatusText: '正在識別文字 (Gemini OCR)...' }));
-          currentOCRData = await performOCR(apiKey, currentSlide.originalImageSrc, maskBase64);
+      // 1. OCR (skipped when refining, unless re-running from the original image)
+      if (!currentSlide.isRefineMode || fromOriginal) {
+          // Born-digital PDF pages use their embedded text instead of OCR
+          setAppState(prev => ({ ...prev, globalStatusText: currentSlide.textLayer ? '正在讀取 PDF 文字...' : '正在識別文字 (OCR)...' }));
+          let ocrResult = currentSlide.textLayer
+            ? await extractTextLayerOCR(currentSlide.textLayer, maskBase64)
+            : await performOCR(ocrSettings, currentSlide.originalImageSrc, maskBase64);
+
+          if (translation && !abortController.signal.aborted) {
+              setAppState(prev => ({ ...prev, globalStatusText: '正在翻譯文字...' }));
+              try {
+                  ocrResult = await translatePage(createModelTranslator(ocrSettings), ocrResult, translation.targetLanguage);
+              } catch (error) {
+                  // Not fatal: the text can still be translated before export
+                  console.warn("Translation failed, keeping the original text:", error);
+              }
+          }
+          currentOCRData = ocrResult.lines;
+          currentTables = ocrResult.tables;
       }
+      // OCR itself can't be interrupted; drop its result if cancelled meanwhile
+      if (abortController.signal.aborted) return;
 
       // 2. Inpainting
-      setAppState(prev => ({ ...prev, globalStatusText: mode === 'chart' ? '正在進行色彩擴散...' : '正在進行影像融合...' }));
-      const processedImage = await performInpainting(
-        currentSlide.isRefineMode && currentSlide.processedImageSrc ? currentSlide.processedImageSrc : currentSlide.originalImageSrc, // Source
-        maskBase64,
-        mode
-      );
+      // Refine mode stacks fixes on the processed image, unless the user chose to re-run from the original
+      const stacksOnProcessed = currentSlide.isRefineMode && !!currentSlide.processedImageSrc && !fromOriginal;
+      setAppState(prev => ({ ...prev, globalStatusText: INPAINT_STATUS_TEXT[mode], globalProgress: 0 }));
+      const source = stacksOnProcessed ? currentSlide.processedImageSrc! : currentSlide.originalImageSrc;
+      const inpaintOptions = {
+        signal: abortController.signal,
+        onProgress: (fraction: number) => setAppState(prev => ({ ...prev, globalProgress: fraction }))
+      };
+      // OCR above keeps the mask as drawn; the refined one is what gets erased and stored
+      const { imageSrc: processedImage, maskSrc: erasedMask } = refinement
+        ? await performRefinedInpainting(source, maskBase64, mode, refinement, inpaintOptions)
+        : { imageSrc: await performInpainting(source, maskBase64, mode, inpaintOptions), maskSrc: maskBase64 };
+
+      // Keep a mask that covers everything erased so far
+      const storedMask = stacksOnProcessed && currentSlide.maskSrc
+        ? await mergeMasks([currentSlide.maskSrc, erasedMask])
+        : erasedMask;
 
       // Update State
       setAppState(prev => {
@@ -148,23 +275,265 @@ const App: React.FC = () => {
               ...currentSlide,
               processedImageSrc: processedImage,
               ocrData: currentOCRData,
+              ocrTables: currentTables,
               status: SlideStatus.DONE,
-              isRefineMode: false // Reset refine mode after success
+              isRefineMode: false, // Reset refine mode after success
+              maskSrc: storedMask,
+              errorMessage: null,
+              ...addVersion(currentSlide, {
+                  processedImageSrc: processedImage,
+                  maskSrc: storedMask,
+                  ocrData: currentOCRData,
+                  ocrTables: currentTables
+              }, mode)
           };
           return {
               ...prev,
               isGlobalProcessing: false,
+              globalProgress: null,
               slides: updatedSlides
           };
       });
 
     } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error(error);
-      setAppState(prev => ({ ...prev, isGlobalProcessing: false }));
+      setAppState(prev => ({ ...prev, isGlobalProcessing: false, globalProgress: null }));
       alert(`處理失敗: ${error.message}`);
+    } finally {
+      if (processingAbortRef.current === abortController) processingAbortRef.current = null;
     }
   };
 
+  const handleProcessingCancel = () => {
+      processingAbortRef.current?.abort();
+      processingAbortRef.current = null;
+      setAppState(prev => ({ ...prev, isGlobalProcessing: false, globalStatusText: '', globalProgress: null }));
+  };
+
+  // --- Batch Processing ---
+
+  const updateSlideById = (id: string, patch: Partial<Slide>) => {
+      setAppState(prev => ({
+          ...prev,
+          slides: prev.slides.map(s => s.id === id ? { ...s, ...patch } : s)
+      }));
+  };
+
+  const updateBatchJob = (slideId: string, patch: Partial<BatchJob>) => {
+      setAppState(prev => {
+          if (!prev.batch) return prev;
+          return {
+              ...prev,
+              batch: {
+                  ...prev.batch,
+                  jobs: prev.batch.jobs.map(j => j.slideId === slideId ? { ...j, ...patch } : j)
+              }
+          };
+      });
+  };
+
+  const batchCandidates = appState.slides.filter(s => s.status === SlideStatus.PENDING || s.status === SlideStatus.ERROR);
+
+  /**
+   * Runs `processSlide` for every target through the job queue, tracking each job in `batch`.
+   * `processSlide` returns the patch to apply to the (latest) slide on success.
+   */
+  const runSlideBatch = async (
+    targets: Slide[],
+    statusText: string,
+    concurrency: number,
+    processSlide: (slide: Slide, ctx: JobContext) => Promise<(latest: Slide) => Partial<Slide>>
+  ) => {
+    setAppState(prev => ({
+        ...prev,
+        isGlobalProcessing: true,
+        globalStatusText: statusText,
+        batch: {
+            jobs: targets.map(s => ({ slideId: s.id, stage: 'queued' })),
+            isPaused: false
+        }
+    }));
+
+    const controller = runJobQueue<Slide>(targets, async (slide, ctx) => {
+        try {
+            updateSlideById(slide.id, { status: SlideStatus.PROCESSING, errorMessage: null });
+            const getPatch = await processSlide(slide, ctx);
+            setAppState(prev => ({
+                ...prev,
+                slides: prev.slides.map(s => s.id === slide.id ? { ...s, ...getPatch(s) } : s)
+            }));
+            updateBatchJob(slide.id, { stage: 'done' });
+        } catch (error: any) {
+            if (error instanceof JobCancelledError) {
+                updateSlideById(slide.id, { status: slide.status, errorMessage: slide.errorMessage });
+                updateBatchJob(slide.id, { stage: 'cancelled' });
+                return;
+            }
+            console.error(error);
+            const message = error?.message || String(error);
+            // A failed extra pass doesn't take away an existing result
+            if (slide.status === SlideStatus.DONE) {
+                updateSlideById(slide.id, { status: slide.status });
+            } else {
+                updateSlideById(slide.id, { status: SlideStatus.ERROR, errorMessage: message });
+            }
+            updateBatchJob(slide.id, { stage: 'error', error: message });
+        }
+    }, concurrency);
+
+    batchControllerRef.current = controller;
+    await controller.done;
+    batchControllerRef.current = null;
+
+    setAppState(prev => ({
+        ...prev,
+        isGlobalProcessing: false,
+        globalStatusText: '',
+        batch: null
+    }));
+  };
+
+  const handleBatchStart = async (concurrency: number, mode: InpaintMode) => {
+    setIsBatchDialogOpen(false);
+    const { ocrSettings, translation } = appState;
+    const targets = batchCandidates;
+    if (targets.length === 0 || !ocrSettings) return;
+
+    await runSlideBatch(targets, '批次處理中...', concurrency, async (slide, ctx) => {
+        const result = await autoProcessSlide(
+            ocrSettings, slide, mode, translation, ctx,
+            stage => updateBatchJob(slide.id, { stage }),
+            progress => updateBatchJob(slide.id, { progress })
+        );
+        return latest => ({
+            processedImageSrc: result.processedImageSrc,
+            ocrData: result.ocrData,
+            ocrTables: result.ocrTables,
+            maskSrc: result.maskSrc,
+            status: SlideStatus.DONE,
+            isRefineMode: false,
+            errorMessage: null,
+            ...addVersion(latest, result, mode)
+        });
+    });
+  };
+
+  const handleApplyMaskStart = async (slideIds: string[], placement: MaskPlacement, mode: InpaintMode, concurrency: number) => {
+    const { ocrSettings, translation } = appState;
+    const sourceMask = applyMaskSource?.maskSrc;
+    const slideMasks = applyMaskSource?.slideMasks || {};
+    setApplyMaskSource(null);
+    const targets = appState.slides.filter(s => slideIds.includes(s.id));
+    if (!sourceMask || targets.length === 0 || !ocrSettings) return;
+
+    await runSlideBatch(targets, '套用遮罩中...', concurrency, async (slide, ctx) => {
+        const result = await applyMaskToSlide(
+            ocrSettings, slide, slideMasks[slide.id] || sourceMask, placement, mode, translation, ctx,
+            stage => updateBatchJob(slide.id, { stage }),
+            progress => updateBatchJob(slide.id, { progress })
+        );
+        return latest => {
+            // Slides processed before keep their (possibly edited) text
+            const text = slide.processedImageSrc
+                ? { ocrData: latest.ocrData, ocrTables: latest.ocrTables }
+                : { ocrData: result.ocrData, ocrTables: result.ocrTables };
+            return {
+                processedImageSrc: result.processedImageSrc,
+                maskSrc: result.maskSrc,
+                ...text,
+                status: SlideStatus.DONE,
+                isRefineMode: false,
+                errorMessage: null,
+                ...addVersion(latest, { processedImageSrc: result.processedImageSrc, maskSrc: result.maskSrc, ...text }, mode, '套用遮罩')
+            };
+        };
+    });
+  };
+
+  // --- Deck Analysis ---
+
+  const handleDeckAnalyze = async (detectText: boolean) => {
+      const controller = new AbortController();
+      processingAbortRef.current = controller;
+      setDeckAnalysis({ regions: null });
+      setAppState(prev => ({ ...prev, isGlobalProcessing: true, globalStatusText: '正在比對投影片...', globalProgress: 0 }));
+
+      try {
+          const regions = await analyzeDeck(
+              appState.ocrSettings, appState.slides, { detectText },
+              progress => setAppState(prev => ({ ...prev, globalProgress: progress })),
+              controller.signal
+          );
+          if (controller.signal.aborted) return;
+          setDeckAnalysis({ regions });
+      } catch (error: any) {
+          if (isAbortError(error)) return;
+          console.error(error);
+          alert("分析失敗: " + (error.message || "未知錯誤"));
+          setDeckAnalysis(null);
+      } finally {
+          if (processingAbortRef.current === controller) {
+              processingAbortRef.current = null;
+              setAppState(prev => ({ ...prev, isGlobalProcessing: false, globalStatusText: '', globalProgress: null }));
+          }
+      }
+  };
+
+  const handleDeckAnalysisAccept = async (regions: RepeatedRegion[]) => {
+      setDeckAnalysis(null);
+      const baseSlide = appState.slides[0];
+      if (!baseSlide || regions.length === 0) return;
+      try {
+          // Region boxes are in percent, so masks are drawn at the first slide's size and stretched to the others
+          const buildMask = (group: RepeatedRegion[]) => buildMaskFromRegions(baseSlide.originalImageSrc, group.map(r => r.box));
+          const maskSrc = await buildMask(regions);
+
+          // Each slide only gets the regions found on it: one mask per distinct set of regions
+          const groups = new Map<string, { regions: RepeatedRegion[]; slideIds: string[] }>();
+          appState.slides.forEach(slide => {
+              const onSlide = regions.filter(r => r.slideIds.includes(slide.id));
+              if (onSlide.length === 0) return;
+              const key = onSlide.map(r => r.id).join(',');
+              if (!groups.has(key)) groups.set(key, { regions: onSlide, slideIds: [] });
+              groups.get(key)!.slideIds.push(slide.id);
+          });
+          const slideMasks: Record<string, string> = {};
+          for (const group of groups.values()) {
+              const groupMask = group.regions.length === regions.length ? maskSrc : await buildMask(group.regions);
+              group.slideIds.forEach(id => { slideMasks[id] = groupMask; });
+          }
+
+          setApplyMaskSource({ maskSrc, sourceSlideId: null, slideIds: Object.keys(slideMasks), slideMasks });
+      } catch (error: any) {
+          console.error(error);
+          alert("建立遮罩失敗: " + (error.message || "未知錯誤"));
+      }
+  };
+
+  const handleBatchPause = () => {
+      batchControllerRef.current?.pause();
+      setAppState(prev => prev.batch ? { ...prev, batch: { ...prev.batch, isPaused: true } } : prev);
+  };
+
+  const handleBatchResume = () => {
+      batchControllerRef.current?.resume();
+      setAppState(prev => prev.batch ? { ...prev, batch: { ...prev.batch, isPaused: false } } : prev);
+  };
+
+  const handleBatchCancel = () => {
+      batchControllerRef.current?.cancel();
+      setAppState(prev => prev.batch ? {
+          ...prev,
+          globalStatusText: '正在取消...',
+          batch: {
+              ...prev.batch,
+              isPaused: false,
+              jobs: prev.batch.jobs.map(j => j.stage === 'queued' ? { ...j, stage: 'cancelled' } : j)
+          }
+      } : prev);
+  };
+
   const handleRefine = () => {
     const { activeSlideId, slides } = appState;
     if (!activeSlideId) return;
@@ -195,14 +564,186 @@ const App: React.FC = () => {
             ...updatedSlides[idx],
             processedImageSrc: updatedSlides[idx].originalImageSrc, // Revert logic
             status: SlideStatus.DONE,
-            isRefineMode: false
+            isRefineMode: false,
+            maskSrc: null, // Nothing is erased anymore
+            currentVersionId: null
         };
         return { ...prev, slides: updatedSlides };
     });
   };
 
-  const handleDownloadAll = () => {
-      downloadPPTX(appState.slides, "Presentation_Export");
+  // --- Version History ---
+
+  const updateActiveSlide = (getPatch: (slide: Slide) => Partial<Slide> | null) => {
+      const { activeSlideId } = appState;
+      if (!activeSlideId) return;
+      setAppState(prev => ({
+          ...prev,
+          slides: prev.slides.map(s => {
+              if (s.id !== activeSlideId) return s;
+              const patch = getPatch(s);
+              return patch ? { ...s, ...patch } : s;
+          })
+      }));
+  };
+
+  const handleRestoreVersion = (versionId: string) => {
+      updateActiveSlide(s => restoreVersion(s, versionId));
+  };
+
+  const handleRenameVersion = (versionId: string, name: string) => {
+      updateActiveSlide(s => renameVersion(s, versionId, name));
+  };
+
+  const handleDeleteVersion = (versionId: string) => {
+      updateActiveSlide(s => deleteVersion(s, versionId));
+  };
+
+  const handleSnapshot = (name: string) => {
+      updateActiveSlide(s => s.processedImageSrc ? addVersion(s, {
+          processedImageSrc: s.processedImageSrc,
+          maskSrc: s.maskSrc,
+          ocrData: s.ocrData,
+          ocrTables: s.ocrTables
+      }, null, name) : null);
+  };
+
+  const handleOcrChange = (ocrData: OCRResult[]) => {
+      const { activeSlideId } = appState;
+      if (!activeSlideId) return;
+      updateSlideById(activeSlideId, { ocrData });
+  };
+
+  const handleExport = async (
+      format: ExportFormat,
+      text: ExportTextContent,
+      targetLanguage: string,
+      autoTranslate: boolean,
+      slideSizeSettings: SlideSizeSettings,
+      pdfPageImage: PdfPageImage
+  ) => {
+      setIsExportDialogOpen(false);
+      const { ocrSettings } = appState;
+      const translation = autoTranslate ? { targetLanguage } : null;
+      saveTranslationSettings(translation);
+      saveSlideSizeSettings(slideSizeSettings);
+      setAppState(prev => ({ ...prev, translation, slideSize: slideSizeSettings }));
+
+      let slides = appState.slides;
+      const usesTranslation = ['pptx', 'markdown', 'docx'].includes(format) && text !== 'original';
+      const targets = usesTranslation && ocrSettings ? slides.filter(s => needsTranslation(s, targetLanguage)) : [];
+      if (targets.length > 0 && ocrSettings) {
+          const translator = createModelTranslator(ocrSettings);
+          const translated = new Map<string, OCRPageResult>();
+
+          await runSlideBatch(targets, '翻譯中...', 2, async (slide, ctx) => {
+              await ctx.checkpoint();
+              updateBatchJob(slide.id, { stage: 'translating' });
+              const page = await translatePage(translator, { lines: slide.ocrData, tables: slide.ocrTables }, targetLanguage);
+              await ctx.checkpoint();
+              translated.set(slide.id, page);
+              return () => ({ ocrData: page.lines, ocrTables: page.tables, status: slide.status });
+          });
+
+          // Slides that failed to translate are exported with their original text
+          slides = slides.map(s => {
+              const page = translated.get(s.id);
+              return page ? { ...s, ocrData: page.lines, ocrTables: page.tables } : s;
+          });
+      }
+
+      const size = await resolveSlideSize(slideSizeSettings, slides);
+      if (format === 'pdf') downloadSearchablePDF(slides, "Presentation_Export", { slideSize: size, pageImage: pdfPageImage });
+      else if (format === 'markdown') downloadMarkdown(slides, "Presentation_Export", text);
+      else if (format === 'docx') downloadDOCX(slides, "Presentation_Export", text);
+      else if (format === 'json') downloadOcrJson(slides, "Presentation_Export");
+      else downloadPPTX(slides, "Presentation_Export", { text, slideSize: size });
+  };
+
+  const handleSaveProject = () => {
+      saveProject(appState.slides, appState.activeSlideId);
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow re-opening the same file
+      if (!file) return;
+
+      if (appState.slides.length > 0 && !window.confirm("開啟專案將取代目前所有投影片，確定要繼續嗎？")) {
+          return;
+      }
+
+      try {
+          const project = await openProject(file);
+          if (project.slides.length === 0) {
+              alert("專案檔案中沒有投影片");
+              return;
+          }
+          setAppState(prev => ({
+              ...prev,
+              step: AppStep.EDITOR,
+              slides: project.slides,
+              activeSlideId: project.activeSlideId,
+              isGlobalProcessing: false,
+              globalStatusText: ''
+          }));
+      } catch (error: any) {
+          console.error(error);
+          alert(`無法開啟專案: ${error.message}`);
+      }
+  };
+
+  const handleImportOcrJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          const result = await importOcrJson(file, appState.slides);
+          if (result.matchedCount === 0) {
+              alert("檔案中的投影片與目前的投影片都對應不上");
+              return;
+          }
+          // Unmatched slides come back unchanged
+          const imported = new Map(result.slides.filter((s, i) => s !== appState.slides[i]).map(s => [s.id, s]));
+          // Slides may have changed while the file was read
+          setAppState(prev => ({
+              ...prev,
+              slides: prev.slides.map(s => {
+                  const slide = imported.get(s.id);
+                  return slide ? { ...s, ocrData: slide.ocrData, ocrTables: slide.ocrTables, notes: slide.notes } : s;
+              })
+          }));
+          alert(`已還原 ${result.matchedCount} 頁的辨識結果 (${result.matchedBy === 'id' ? '依投影片 ID' : '依頁面順序'}對應)`);
+      } catch (error: any) {
+          console.error(error);
+          alert(`無法匯入辨識結果: ${error.message}`);
+      }
+  };
+
+  const handleRestoreSession = async () => {
+      try {
+          const session = await loadSession();
+          setRestorableSession(null);
+          if (!session) {
+              alert("找不到可還原的工作階段");
+              return;
+          }
+          setAppState(prev => ({
+              ...prev,
+              step: AppStep.EDITOR,
+              slides: session.slides,
+              activeSlideId: session.activeSlideId
+          }));
+      } catch (error: any) {
+          console.error(error);
+          alert(`無法還原上次的工作: ${error.message}`);
+      }
+  };
+
+  const handleDiscardSession = () => {
+      setRestorableSession(null);
+      clearSession().catch(e => console.warn("Failed to clear session:", e));
   };
 
   const handleResetAll = () => {
@@ -230,16 +771,23 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center space-x-4">
-             {appState.apiKey && (
+             {appState.ocrSettings && (
                  <button 
                    onClick={handleClearApiKey}
                    className="text-xs text-gray-400 hover:text-gray-600 underline"
-                   title="清除儲存的 API Key"
+                   title="清除儲存的 OCR 服務設定"
                  >
-                   更換 Key
+                   {appState.ocrSettings.type === 'gemini' ? '更換 Key' : '更換 OCR 服務'}
                  </button>
              )}
 
+             {appState.step !== AppStep.API_KEY && (
+                <label className="cursor-pointer text-gray-500 hover:text-blue-600 text-sm px-3 font-medium transition-colors" title="開啟已儲存的專案檔案">
+                    開啟專案
+                    <input type="file" accept={`${PROJECT_FILE_EXTENSION},application/json`} className="hidden" onChange={handleOpenProject} />
+                </label>
+             )}
+
              {appState.slides.length > 0 && (
                 <div className="flex space-x-3">
                     <button 
@@ -251,11 +799,53 @@ const App: React.FC = () => {
                     </button>
                     <button 
                         type="button"
-                        onClick={handleDownloadAll}
+                        onClick={() => setIsBatchDialogOpen(true)}
+                        disabled={batchCandidates.length === 0}
+                        className="border border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1.5 rounded text-sm font-medium"
+                        title="自動處理所有待處理的投影片"
+                    >
+                        批次處理 ({batchCandidates.length})
+                    </button>
+                    <button 
+                        type="button"
+                        onClick={() => activeSlide?.maskSrc && setApplyMaskSource({ maskSrc: activeSlide.maskSrc, sourceSlideId: activeSlide.id })}
+                        disabled={!activeSlide?.maskSrc || appState.slides.length < 2}
+                        className="border border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1.5 rounded text-sm font-medium"
+                        title="將目前頁面的遮罩套用到其他頁面 (例如重複的頁尾、浮水印)"
+                    >
+                        套用遮罩
+                    </button>
+                    <button 
+                        type="button"
+                        onClick={() => setDeckAnalysis({ regions: null })}
+                        disabled={appState.slides.length < 2}
+                        className="border border-indigo-200 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 disabled:opacity-50 disabled:cursor-not-allowed px-3 py-1.5 rounded text-sm font-medium"
+                        title="找出各頁重複出現的標誌、頁尾、頁碼，並建議共用遮罩"
+                    >
+                        分析重複元素
+                    </button>
+                    <label
+                        className="cursor-pointer border border-gray-300 text-gray-700 hover:bg-gray-100 px-3 py-1.5 rounded text-sm font-medium"
+                        title="從匯出的 JSON 檔案還原各頁的辨識文字"
+                    >
+                        匯入辨識結果
+                        <input type="file" accept=".json,application/json" className="hidden" onChange={handleImportOcrJson} />
+                    </label>
+                    <button 
+                        type="button"
+                        onClick={handleSaveProject}
+                        className="border border-gray-300 text-gray-700 hover:bg-gray-100 px-3 py-1.5 rounded text-sm font-medium"
+                        title="將所有投影片、遮罩與辨識結果儲存為專案檔案"
+                    >
+                        儲存專案
+                    </button>
+                    <button 
+                        type="button"
+                        onClick={() => setIsExportDialogOpen(true)}
                         className="bg-green-600 hover:bg-green-700 text-white px-4 py-1.5 rounded text-sm font-medium flex items-center shadow-sm"
                     >
                         <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-                        下載 PPTX ({appState.slides.length} 頁)
+                        下載 ({appState.slides.length} 頁)
                     </button>
                 </div>
              )}
@@ -276,7 +866,33 @@ const App: React.FC = () => {
         {appState.step === AppStep.UPLOAD && (
             <div className="flex-1 p-10 flex flex-col justify-center max-w-4xl mx-auto w-full">
                 <h2 className="text-2xl font-bold text-center mb-2">開始您的專案</h2>
-                <p className="text-center text-gray-500 mb-8">支援批量圖片上傳與 PDF 檔案匯入</p>
+                <p className="text-center text-gray-500 mb-8">支援批量圖片上傳與 PDF、PPTX 檔案匯入</p>
+                {restorableSession && (
+                    <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between">
+                        <div className="text-sm text-amber-800">
+                            <div className="font-semibold">發現上次未完成的工作</div>
+                            <div className="text-amber-700">
+                                {restorableSession.slideCount} 頁投影片，自動儲存於 {new Date(restorableSession.savedAt).toLocaleString()}
+                            </div>
+                        </div>
+                        <div className="flex space-x-2 shrink-0">
+                            <button 
+                                type="button"
+                                onClick={handleDiscardSession}
+                                className="px-3 py-1.5 text-sm text-gray-600 hover:text-red-600"
+                            >
+                                捨棄
+                            </button>
+                            <button 
+                                type="button"
+                                onClick={handleRestoreSession}
+                                className="px-4 py-1.5 text-sm bg-amber-600 hover:bg-amber-700 text-white rounded font-medium"
+                            >
+                                還原
+                            </button>
+                        </div>
+                    </div>
+                )}
                 <StepUpload onImagesUpload={handleImagesUpload} isLoading={appState.isGlobalProcessing} />
             </div>
         )}
@@ -321,6 +937,8 @@ const App: React.FC = () => {
                                     <div className="absolute top-1 right-1">
                                         {slide.status === SlideStatus.DONE && <div className="w-2 h-2 bg-green-500 rounded-full shadow-sm"></div>}
                                         {slide.status === SlideStatus.PENDING && <div className="w-2 h-2 bg-yellow-400 rounded-full shadow-sm"></div>}
+                                        {slide.status === SlideStatus.PROCESSING && <div className="w-2 h-2 bg-blue-500 rounded-full shadow-sm animate-pulse"></div>}
+                                        {slide.status === SlideStatus.ERROR && <div className="w-2 h-2 bg-red-500 rounded-full shadow-sm" title={slide.errorMessage || undefined}></div>}
                                     </div>
                                 </div>
                                 <div className="flex justify-between items-center mt-1 px-1">
@@ -345,11 +963,19 @@ const App: React.FC = () => {
                 <div className="flex-1 relative bg-white">
                     {activeSlide ? (
                         <>
-                           {(activeSlide.status === SlideStatus.PENDING || activeSlide.isRefineMode) ? (
+                           {activeSlide.status === SlideStatus.ERROR && activeSlide.errorMessage && (
+                               <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 bg-red-50 border border-red-200 text-red-700 text-sm px-4 py-2 rounded-lg shadow">
+                                   處理失敗: {activeSlide.errorMessage}
+                               </div>
+                           )}
+                           {(activeSlide.status === SlideStatus.PENDING || activeSlide.status === SlideStatus.ERROR || activeSlide.isRefineMode) ? (
                                <StepMasking 
                                    key={activeSlide.id} 
                                    imageSrc={activeSlide.isRefineMode && activeSlide.processedImageSrc ? activeSlide.processedImageSrc : activeSlide.originalImageSrc}
-                                   apiKey={appState.apiKey}
+                                   originalImageSrc={activeSlide.isRefineMode && activeSlide.processedImageSrc ? activeSlide.originalImageSrc : undefined}
+                                   initialMaskSrc={activeSlide.maskSrc}
+                                   ocrSettings={appState.ocrSettings}
+                                   textLayer={activeSlide.isRefineMode ? null : activeSlide.textLayer}
                                    onConfirm={handleProcessingStart}
                                    onCancel={handleMaskCancel}
                                />
@@ -357,8 +983,15 @@ const App: React.FC = () => {
                                <StepResult 
                                    key={activeSlide.id}
                                    slide={activeSlide}
+                                   slideSize={slideSize}
                                    onRevertToOriginal={handleRevertToOriginal}
                                    onRefine={handleRefine}
+                                   onOcrChange={handleOcrChange}
+                                   onTablesChange={(ocrTables) => updateSlideById(activeSlide.id, { ocrTables })}
+                                   onRestoreVersion={handleRestoreVersion}
+                                   onRenameVersion={handleRenameVersion}
+                                   onDeleteVersion={handleDeleteVersion}
+                                   onSnapshot={handleSnapshot}
                                />
                            )}
                         </>
@@ -371,7 +1004,58 @@ const App: React.FC = () => {
 
         {/* Loading Overlay */}
         {appState.isGlobalProcessing && (
-          <ProcessingOverlay status={appState.globalStatusText} />
+          <ProcessingOverlay 
+              status={appState.globalStatusText}
+              progress={appState.globalProgress}
+              batch={appState.batch}
+              slideLabels={Object.fromEntries(appState.slides.map((s, idx) => [s.id, `Page ${idx + 1}`]))}
+              onPause={handleBatchPause}
+              onResume={handleBatchResume}
+              onCancel={appState.batch ? handleBatchCancel : appState.globalProgress !== null ? handleProcessingCancel : undefined}
+          />
+        )}
+
+        {isBatchDialogOpen && (
+          <BatchDialog 
+              slideCount={batchCandidates.length}
+              onStart={handleBatchStart}
+              onClose={() => setIsBatchDialogOpen(false)}
+          />
+        )}
+
+        {isExportDialogOpen && (
+          <ExportDialog 
+              slideCount={appState.slides.length}
+              countUntranslated={language => appState.slides.filter(s => needsTranslation(s, language)).length}
+              canTranslate={!!appState.ocrSettings}
+              translation={appState.translation}
+              slideSize={appState.slideSize}
+              onExport={handleExport}
+              onClose={() => setIsExportDialogOpen(false)}
+          />
+        )}
+
+        {applyMaskSource && (
+          <ApplyMaskDialog 
+              slides={appState.slides}
+              sourceSlideId={applyMaskSource.sourceSlideId}
+              maskSrc={applyMaskSource.maskSrc}
+              initialSelectedIds={applyMaskSource.slideIds}
+              onStart={handleApplyMaskStart}
+              onClose={() => setApplyMaskSource(null)}
+          />
+        )}
+
+        {deckAnalysis && !appState.isGlobalProcessing && (
+          <DeckAnalysisDialog 
+              key={deckAnalysis.regions ? 'results' : 'setup'}
+              slides={appState.slides}
+              regions={deckAnalysis.regions}
+              canDetectText={!!appState.ocrSettings}
+              onAnalyze={handleDeckAnalyze}
+              onAccept={handleDeckAnalysisAccept}
+              onClose={() => setDeckAnalysis(null)}
+          />
         )}
       </main>
     </div>
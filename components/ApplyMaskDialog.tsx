@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { InpaintMode, Slide } from '../types';
+import { MaskPlacement } from '../services/maskService';
+
+interface ApplyMaskDialogProps {
+  slides: Slide[];
+  sourceSlideId: string | null; // Null when the mask doesn't come from a slide (e.g. deck analysis)
+  maskSrc: string;
+  initialSelectedIds?: string[];
+  onStart: (slideIds: string[], placement: MaskPlacement, mode: InpaintMode, concurrency: number) => void;
+  onClose: () => void;
+}
+
+const PLACEMENT_OPTIONS: { value: MaskPlacement; label: string }[] = [
+  { value: 'stretch', label: '依比例縮放至各頁尺寸' },
+  { value: 'bottom', label: '對齊下緣 (頁尾、頁碼)' },
+  { value: 'top', label: '對齊上緣 (頁首、標誌)' },
+  { value: 'left', label: '對齊左緣' },
+  { value: 'right', label: '對齊右緣' },
+];
+
+const ApplyMaskDialog: React.FC<ApplyMaskDialogProps> = ({ slides, sourceSlideId, maskSrc, initialSelectedIds, onStart, onClose }) => {
+  const candidates = slides.filter(s => s.id !== sourceSlideId);
+  const [selectedIds, setSelectedIds] = useState<string[]>(
+    () => initialSelectedIds ? candidates.filter(s => initialSelectedIds.includes(s.id)).map(s => s.id) : candidates.map(s => s.id)
+  );
+  const [placement, setPlacement] = useState<MaskPlacement>('stretch');
+  const [fillMode, setFillMode] = useState<InpaintMode>('chart');
+  const [concurrency, setConcurrency] = useState(2);
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-[36rem] max-w-full max-h-[90vh] flex flex-col p-6" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">{sourceSlideId ? '套用遮罩到其他頁面' : '套用共用遮罩'}</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          將{sourceSlideId ? '目前頁面的' : '建議的'}遮罩 (紅色區域) 套用到選取的頁面並修補背景。已處理的頁面不會重新辨識文字；尚未處理的頁面會一併偵測並辨識文字。
+          {!sourceSlideId && ' 預選的頁面只清除在該頁找到的區域，其他加選的頁面套用整個遮罩。'}
+        </p>
+
+        <div className="flex space-x-4 text-sm mb-4">
+          <div className="w-40 shrink-0 bg-red-500 rounded border overflow-hidden self-start" title="紅色為將被清除的區域">
+            <img src={maskSrc} alt="遮罩" className="block w-full" />
+          </div>
+          <div className="flex-1 space-y-3">
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">對齊方式</label>
+              <select
+                value={placement}
+                onChange={(e) => setPlacement(e.target.value as MaskPlacement)}
+                className="w-full border border-gray-300 rounded px-2 py-1.5"
+              >
+                {PLACEMENT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              <p className="text-xs text-gray-400 mt-1">頁面尺寸不同時，對齊邊緣可讓頁尾等區域維持在相同位置。</p>
+            </div>
+            <div className="flex space-x-3">
+              <div className="flex-1">
+                <label className="block font-medium text-gray-700 mb-1">修補模式</label>
+                <select
+                  value={fillMode}
+                  onChange={(e) => setFillMode(e.target.value as InpaintMode)}
+                  className="w-full border border-gray-300 rounded px-2 py-1.5"
+                >
+                  <option value="chart">純色/圖表 (線條清晰)</option>
+                  <option value="photo">真實照片/天空</option>
+                  <option value="texture">紋理/材質</option>
+                </select>
+              </div>
+              <div className="w-24">
+                <label className="block font-medium text-gray-700 mb-1">同時處理</label>
+                <select
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(parseInt(e.target.value))}
+                  className="w-full border border-gray-300 rounded px-2 py-1.5"
+                >
+                  {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center text-sm mb-2">
+          <span className="font-medium text-gray-700">套用頁面 ({selectedIds.length}/{candidates.length})</span>
+          <div className="space-x-3 text-xs">
+            <button onClick={() => setSelectedIds(candidates.map(s => s.id))} className="text-blue-600 hover:text-blue-800">全選</button>
+            <button onClick={() => setSelectedIds([])} className="text-gray-500 hover:text-gray-700">全不選</button>
+          </div>
+        </div>
+        <div className="grid grid-cols-4 gap-2 overflow-y-auto min-h-0 border rounded p-2 bg-gray-50">
+          {slides.map((slide, idx) => slide.id === sourceSlideId ? null : (
+            <label
+              key={slide.id}
+              className={`relative cursor-pointer rounded border-2 overflow-hidden bg-white ${selectedIds.includes(slide.id) ? 'border-blue-500' : 'border-transparent opacity-60'}`}
+            >
+              <img src={slide.processedImageSrc || slide.originalImageSrc} alt={`Page ${idx + 1}`} className="w-full h-16 object-contain" />
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(slide.id)}
+                onChange={() => toggle(slide.id)}
+                className="absolute top-1 left-1 accent-blue-600"
+              />
+              <span className="absolute bottom-0 right-0 bg-black/50 text-white text-[10px] px-1">{idx + 1}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <button onClick={onClose} className="px-3 py-2 text-gray-600 text-sm hover:text-gray-800">取消</button>
+          <button
+            onClick={() => onStart(selectedIds, placement, fillMode, concurrency)}
+            disabled={selectedIds.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 text-sm"
+          >
+            套用到 {selectedIds.length} 頁
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyMaskDialog;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { InpaintMode } from '../services/openaiService';
+
+interface BatchDialogProps {
+  slideCount: number;
+  onStart: (concurrency: number, mode: InpaintMode) => void;
+  onClose: () => void;
+}
+
+const BatchDialog: React.FC<BatchDialogProps> = ({ slideCount, onStart, onClose }) => {
+  const [concurrency, setConcurrency] = useState(2);
+  const [fillMode, setFillMode] = useState<InpaintMode>('chart');
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-96 p-6" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">批次處理</h3>
+        <p className="text-sm text-gray-500 mb-5">
+          將自動偵測文字、辨識並修補 {slideCount} 張待處理的投影片。
+        </p>
+
+        <div className="space-y-4 text-sm">
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">同時處理數量</label>
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(parseInt(e.target.value))}
+              className="w-full border border-gray-300 rounded px-2 py-1.5"
+            >
+              {[1, 2, 3, 4].map(n => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">數量越高越快，但可能觸發 API 速率限制。</p>
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">修補模式</label>
+            <select
+              value={fillMode}
+              onChange={(e) => setFillMode(e.target.value as InpaintMode)}
+              className="w-full border border-gray-300 rounded px-2 py-1.5"
+            >
+              <option value="chart">純色/圖表 (線條清晰)</option>
+              <option value="photo">真實照片/天空</option>
+              <option value="texture">紋理/材質</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <button onClick={onClose} className="px-3 py-2 text-gray-600 text-sm hover:text-gray-800">取消</button>
+          <button
+            onClick={() => onStart(concurrency, fillMode)}
+            disabled={slideCount === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 text-sm"
+          >
+            開始批次處理
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchDialog;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Slide } from '../types';
+import { RepeatedRegion } from '../services/deckAnalysisService';
+
+interface DeckAnalysisDialogProps {
+  slides: Slide[];
+  regions: RepeatedRegion[] | null; // Null until the analysis has run
+  canDetectText: boolean;           // An OCR provider is configured
+  onAnalyze: (detectText: boolean) => void;
+  onAccept: (regions: RepeatedRegion[]) => void;
+  onClose: () => void;
+}
+
+const DeckAnalysisDialog: React.FC<DeckAnalysisDialogProps> = ({ slides, regions, canDetectText, onAnalyze, onAccept, onClose }) => {
+  const [detectText, setDetectText] = useState(canDetectText);
+  const [acceptedIds, setAcceptedIds] = useState<string[]>(() => (regions || []).filter(r => r.suggested).map(r => r.id));
+  const [previewIndex, setPreviewIndex] = useState(0);
+
+  const toggle = (id: string) => {
+    setAcceptedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const previewSlide = slides[Math.min(previewIndex, slides.length - 1)];
+  const accepted = (regions || []).filter(r => acceptedIds.includes(r.id));
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-[48rem] max-w-full max-h-[90vh] flex flex-col p-6" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">分析重複元素</h3>
+
+        {regions === null ? (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              比對全部 {slides.length} 頁，找出在多數頁面相同位置重複出現的元素 (標誌、頁尾、頁碼、浮水印)，並建議一個共用遮罩。
+            </p>
+            <label className={`flex items-start space-x-2 text-sm ${canDetectText ? 'text-gray-700' : 'text-gray-400'}`}>
+              <input
+                type="checkbox"
+                checked={detectText}
+                disabled={!canDetectText}
+                onChange={(e) => setDetectText(e.target.checked)}
+                className="mt-0.5 accent-blue-600"
+              />
+              <span>
+                同時偵測重複文字 (例如每頁內容不同的頁碼)
+                <span className="block text-xs text-gray-400">會對最多 10 頁呼叫 OCR 服務。</span>
+              </span>
+            </label>
+            <div className="flex justify-end space-x-2 mt-6">
+              <button onClick={onClose} className="px-3 py-2 text-gray-600 text-sm hover:text-gray-800">取消</button>
+              <button
+                onClick={() => onAnalyze(detectText && canDetectText)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+              >
+                開始分析
+              </button>
+            </div>
+          </>
+        ) : regions.length === 0 ? (
+          <>
+            <p className="text-sm text-gray-500 my-6 text-center">沒有找到在多數頁面重複出現的元素。</p>
+            <div className="flex justify-end">
+              <button onClick={onClose} className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm">關閉</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-4">
+              勾選要清除的區域 (可直接點擊預覽中的框線)。靠近頁面邊緣的元素已預先勾選。
+            </p>
+            <div className="flex space-x-4 min-h-0">
+              <div className="flex-1 min-w-0">
+                <div className="relative bg-gray-100 border rounded overflow-hidden">
+                  <img src={previewSlide.originalImageSrc} alt="預覽" className="block w-full" />
+                  {regions.map(region => {
+                    const isAccepted = acceptedIds.includes(region.id);
+                    const onSlide = region.slideIds.includes(previewSlide.id);
+                    return (
+                      <div
+                        key={region.id}
+                        onClick={() => toggle(region.id)}
+                        title={region.label}
+                        className={`absolute cursor-pointer border-2 ${isAccepted ? 'border-red-500 bg-red-500/30' : 'border-dashed border-blue-500 bg-blue-500/10'} ${onSlide ? '' : 'opacity-40'}`}
+                        style={{
+                          left: `${region.box.xmin}%`,
+                          top: `${region.box.ymin}%`,
+                          width: `${region.box.xmax - region.box.xmin}%`,
+                          height: `${region.box.ymax - region.box.ymin}%`,
+                        }}
+                      />
+                    );
+                  })}
+                </div>
+                <div className="flex items-center justify-center space-x-3 mt-2 text-sm text-gray-600">
+                  <button
+                    onClick={() => setPreviewIndex(i => Math.max(0, i - 1))}
+                    disabled={previewIndex === 0}
+                    className="px-2 hover:text-blue-600 disabled:opacity-30"
+                  >
+                    ‹
+                  </button>
+                  <span>Page {previewIndex + 1} / {slides.length}</span>
+                  <button
+                    onClick={() => setPreviewIndex(i => Math.min(slides.length - 1, i + 1))}
+                    disabled={previewIndex >= slides.length - 1}
+                    className="px-2 hover:text-blue-600 disabled:opacity-30"
+                  >
+                    ›
+                  </button>
+                </div>
+              </div>
+
+              <div className="w-56 shrink-0 overflow-y-auto space-y-1 text-sm">
+                {regions.map(region => (
+                  <label
+                    key={region.id}
+                    className={`flex items-center space-x-2 px-2 py-1.5 rounded cursor-pointer ${acceptedIds.includes(region.id) ? 'bg-red-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={acceptedIds.includes(region.id)}
+                      onChange={() => toggle(region.id)}
+                      className="accent-red-600"
+                    />
+                    <span className="flex-1 text-gray-700">{region.label}</span>
+                    <span className="text-xs text-gray-400" title="出現於比對頁面的比例">{Math.round(region.coverage * 100)}%</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 mt-6">
+              <button onClick={onClose} className="px-3 py-2 text-gray-600 text-sm hover:text-gray-800">取消</button>
+              <button
+                onClick={() => onAccept(accepted)}
+                disabled={accepted.length === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 text-sm"
+              >
+                下一步：套用遮罩
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeckAnalysisDialog;
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { ExportFormat, SlideSizePreset, SlideSizeSettings, TranslationSettings } from '../types';
+import { ExportTextContent, getSlideSize } from '../services/pptxService';
+import { TRANSLATION_LANGUAGES } from '../services/translationService';
+import { PdfPageImage } from '../services/pdfExportService';
+
+interface ExportDialogProps {
+  slideCount: number;
+  countUntranslated: (targetLanguage: string) => number; // Slides with text not yet translated into the language
+  canTranslate: boolean;     // An OCR provider is configured
+  translation: TranslationSettings | null;
+  slideSize: SlideSizeSettings;
+  onExport: (
+    format: ExportFormat,
+    text: ExportTextContent,
+    targetLanguage: string,
+    autoTranslate: boolean,
+    slideSize: SlideSizeSettings,
+    pdfPageImage: PdfPageImage
+  ) => void;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'pptx', label: 'PPTX', hint: '可編輯的文字方塊與表格' },
+  { value: 'pdf', label: '可搜尋的 PDF', hint: '保留圖片外觀，辨識文字作為隱藏文字層，可搜尋與複製' },
+  { value: 'markdown', label: 'Markdown', hint: '只匯出文字，每頁一個段落' },
+  { value: 'docx', label: 'Word (DOCX)', hint: '只匯出文字，每頁一個標題，含表格' },
+  { value: 'json', label: 'JSON', hint: '完整辨識結果 (含座標與譯文)，可再匯入還原' },
+];
+
+// Formats that place the slide images on pages of the chosen size
+const PAGED_FORMATS: ExportFormat[] = ['pptx', 'pdf'];
+// Formats that output the recognised text as readable content
+const TEXT_FORMATS: ExportFormat[] = ['pptx', 'markdown', 'docx'];
+
+const TEXT_OPTIONS: { value: ExportTextContent; label: string; hint: string }[] = [
+  { value: 'original', label: '原文', hint: '匯出辨識出的原始文字' },
+  { value: 'translated', label: '譯文', hint: '以翻譯取代原文，並依文字長度調整字級' },
+  { value: 'both', label: '譯文 + 原文備忘稿', hint: '投影片顯示譯文，原文放在演講者備忘稿' },
+];
+
+const PDF_IMAGE_OPTIONS: { value: PdfPageImage; label: string; hint: string }[] = [
+  { value: 'processed', label: '處理後的圖片', hint: '已清除文字的頁面；尚未處理的頁面使用原圖' },
+  { value: 'original', label: '原圖', hint: '保留原本的文字，隱藏文字層與圖上的文字重疊' },
+];
+
+const SIZE_OPTIONS: { value: SlideSizePreset; label: string }[] = [
+  { value: '16:9', label: '寬螢幕 16:9' },
+  { value: '4:3', label: '標準 4:3' },
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'Letter' },
+  { value: 'match-first', label: '符合第一張投影片' },
+  { value: 'custom', label: '自訂' },
+];
+
+const formatInches = (value: number) => `${Math.round(value * 100) / 100}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ slideCount, countUntranslated, canTranslate, translation, slideSize, onExport, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('pptx');
+  const [text, setText] = useState<ExportTextContent>(translation ? 'translated' : 'original');
+  const [targetLanguage, setTargetLanguage] = useState(translation?.targetLanguage || TRANSLATION_LANGUAGES[0].value);
+  const [autoTranslate, setAutoTranslate] = useState(!!translation);
+  const [size, setSize] = useState<SlideSizeSettings>(slideSize);
+  const [pdfPageImage, setPdfPageImage] = useState<PdfPageImage>('processed');
+
+  const hasOrientation = size.preset !== 'match-first' && size.preset !== 'custom';
+  const resolvedSize = size.preset !== 'match-first' ? getSlideSize(size, null) : null;
+
+  // The PDF text layer has to match the image, so it always carries the original text;
+  // JSON keeps both the original and any translation
+  const hasTextChoice = TEXT_FORMATS.includes(format);
+  const usesTranslation = hasTextChoice && text !== 'original';
+  const untranslatedCount = usesTranslation ? countUntranslated(targetLanguage) : 0;
+  const willTranslate = untranslatedCount > 0;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl w-[28rem] max-w-full p-6" onClick={(e) => e.stopPropagation()}>
+        <h3 className="text-lg font-bold text-gray-800 mb-1">下載</h3>
+        <p className="text-sm text-gray-500 mb-5">匯出 {slideCount} 頁投影片。</p>
+
+        <div className="space-y-4 text-sm">
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">檔案格式</label>
+            <div className="space-y-1">
+              {FORMAT_OPTIONS.map(option => (
+                <label key={option.value} className="flex items-start space-x-2 text-gray-700">
+                  <input
+                    type="radio"
+                    name="exportFormat"
+                    checked={format === option.value}
+                    onChange={() => setFormat(option.value)}
+                    className="mt-0.5 accent-blue-600"
+                  />
+                  <span>
+                    {option.label}
+                    <span className="block text-xs text-gray-400">{option.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {hasTextChoice && (
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">文字內容</label>
+              <div className="space-y-1">
+                {TEXT_OPTIONS.map(option => (
+                  <label
+                    key={option.value}
+                    className={`flex items-start space-x-2 ${option.value !== 'original' && !canTranslate ? 'text-gray-400' : 'text-gray-700'}`}
+                  >
+                    <input
+                      type="radio"
+                      name="exportText"
+                      checked={text === option.value}
+                      disabled={option.value !== 'original' && !canTranslate}
+                      onChange={() => setText(option.value)}
+                      className="mt-0.5 accent-blue-600"
+                    />
+                    <span>
+                      {option.label}
+                      <span className="block text-xs text-gray-400">{option.hint}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {format === 'pdf' && (
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">頁面圖片</label>
+              <div className="space-y-1">
+                {PDF_IMAGE_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-start space-x-2 text-gray-700">
+                    <input
+                      type="radio"
+                      name="pdfPageImage"
+                      checked={pdfPageImage === option.value}
+                      onChange={() => setPdfPageImage(option.value)}
+                      className="mt-0.5 accent-blue-600"
+                    />
+                    <span>
+                      {option.label}
+                      <span className="block text-xs text-gray-400">{option.hint}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {PAGED_FORMATS.includes(format) && (
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">投影片尺寸</label>
+              <div className="flex space-x-2">
+                <select
+                  value={size.preset}
+                  onChange={(e) => setSize({ ...size, preset: e.target.value as SlideSizePreset })}
+                  className="flex-1 border border-gray-300 rounded px-2 py-1.5"
+                >
+                  {SIZE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+                {hasOrientation && (
+                  <select
+                    value={size.orientation}
+                    onChange={(e) => setSize({ ...size, orientation: e.target.value as SlideSizeSettings['orientation'] })}
+                    className="border border-gray-300 rounded px-2 py-1.5"
+                  >
+                    <option value="landscape">橫向</option>
+                    <option value="portrait">直向</option>
+                  </select>
+                )}
+              </div>
+              {size.preset === 'custom' && (
+                <div className="flex items-center space-x-2 mt-2 text-gray-700">
+                  <input
+                    type="number"
+                    min={1}
+                    max={56}
+                    step={0.1}
+                    value={size.customWidth}
+                    onChange={(e) => setSize({ ...size, customWidth: parseFloat(e.target.value) || 0 })}
+                    className="w-20 border border-gray-300 rounded px-2 py-1"
+                  />
+                  <span>×</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={56}
+                    step={0.1}
+                    value={size.customHeight}
+                    onChange={(e) => setSize({ ...size, customHeight: parseFloat(e.target.value) || 0 })}
+                    className="w-20 border border-gray-300 rounded px-2 py-1"
+                  />
+                  <span>英吋</span>
+                </div>
+              )}
+              <p className="text-xs text-gray-400 mt-1">
+                {resolvedSize
+                  ? `${formatInches(resolvedSize.width)} × ${formatInches(resolvedSize.height)} 英吋`
+                  : '依第一張投影片的長寬比，長邊 10 英吋'}
+                ；比例不同的頁面會以圖片邊緣的顏色補滿空白。
+              </p>
+            </div>
+          )}
+
+          {canTranslate && hasTextChoice && (
+            <div>
+              <label className="block font-medium text-gray-700 mb-1">翻譯語言</label>
+              <select
+                value={targetLanguage}
+                onChange={(e) => setTargetLanguage(e.target.value)}
+                className="w-full border border-gray-300 rounded px-2 py-1.5"
+              >
+                {TRANSLATION_LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+              </select>
+              {willTranslate && (
+                <p className="text-xs text-amber-600 mt-1">有 {untranslatedCount} 頁尚未翻譯，下載前會先以目前的模型翻譯。</p>
+              )}
+              <label className="flex items-center space-x-2 mt-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={autoTranslate}
+                  onChange={(e) => setAutoTranslate(e.target.checked)}
+                  className="accent-blue-600"
+                />
+                <span>之後辨識的投影片自動翻譯成此語言</span>
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <button onClick={onClose} className="px-3 py-2 text-gray-600 text-sm hover:text-gray-800">取消</button>
+          <button
+            onClick={() => onExport(format, text, targetLanguage, autoTranslate && canTranslate, size, pdfPageImage)}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+          >
+            {willTranslate ? '翻譯並下載' : '下載'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_PDF_DPI, PdfImageFormat, PdfImportOptions,
+  getPdfPageSize, parsePageRange, renderPdfThumbnail
+} from '../services/pdfService';
+
+interface PdfImportDialogProps {
+  fileName: string;
+  pdf: any; // PDF.js document
+  onImport: (options: PdfImportOptions) => void;
+  onSkip: () => void;
+}
+
+const DPI_OPTIONS: { value: number; label: string }[] = [
+  { value: 96, label: '96 DPI (快速、檔案小)' },
+  { value: 150, label: '150 DPI (標準)' },
+  { value: 200, label: '200 DPI' },
+  { value: 300, label: '300 DPI (細小文字)' },
+];
+
+/**
+ * One page thumbnail, rendered only once it scrolls into view.
+ */
+const PageThumbnail: React.FC<{
+  pageNumber: number;
+  selected: boolean;
+  requestRender: (pageNumber: number) => Promise<string>;
+  onToggle: () => void;
+}> = ({ pageNumber, selected, requestRender, onToggle }) => {
+  const ref = useRef<HTMLLabelElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    let cancelled = false;
+    const observer = new IntersectionObserver(entries => {
+      if (!entries.some(e => e.isIntersecting)) return;
+      observer.disconnect();
+      requestRender(pageNumber)
+        .then(url => { if (!cancelled) setSrc(url); })
+        .catch(e => { if (!cancelled) console.warn(`Thumbnail of page ${pageNumber} failed:`, e); });
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [pageNumber, requestRender]);
+
+  return (
+    <label
+      ref={ref}
+      className={`relative cursor-pointer rounded border-2 overflow-hidden bg-white ${selected ? 'border-blue-500' : 'border-transparent opacity-60'}`}
+    >
+      {src
+        ? <img src={src} alt={`Page ${pageNumber}`} className="w-full h-20 object-contain" />
+        : <div className="w-full h-20 bg-gray-100 animate-pulse" />}
+      <input type="checkbox" checked={selected} onChange={onToggle} className="absolute top-1 left-1 accent-blue-600" />
+      <span className="absolute bottom-0 right-0 bg-black/50 text-white text-[10px] px-1">{pageNumber}</span>
+    </label>
+  );
+};
+
+const PdfImportDialog: React.FC<PdfImportDialogProps> = ({ fileName, pdf, onImport, onSkip }) => {
+  const pageCount: number = pdf.numPages;
+  const allPages = Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  const [selected, setSelected] = useState<number[]>(allPages);
+  const [rangeText, setRangeText] = useState(`1-${pageCount}`);
+  const [rangeError, setRangeError] = useState(false);
+  const [dpi, setDpi] = useState(DEFAULT_PDF_DPI);
+  const [format, setFormat] = useState<PdfImageFormat>('png');
+  const [pixelSize, setPixelSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Thumbnails render one at a time; PDF.js is much faster without competing renders
+  const renderChain = useRef<Promise<unknown>>(Promise.resolve());
+  const isOpen = useRef(true);
+  const requestRender = useRef((pageNumber: number) => {
+    const next = renderChain.current.then(() => {
+      // Queued thumbnails are dropped once the dialog is closed
+      if (!isOpen.current) throw new Error("Dialog closed");
+      return renderPdfThumbnail(pdf, pageNumber);
+    });
+    renderChain.current = next.catch(() => undefined);
+    return next;
+  }).current;
+
+  useEffect(() => {
+    isOpen.current = true;
+    return () => { isOpen.current = false; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPdfPageSize(pdf, selected[0] || 1, dpi)
+      .then(size => { if (!cancelled) setPixelSize(size); })
+      .catch(() => setPixelSize(null));
+    return () => { cancelled = true; };
+  }, [pdf, dpi, selected[0]]);
+
+  const applyRange = (text: string) => {
+    setRangeText(text);
+    const pages = parsePageRange(text, pageCount);
+    setRangeError(pages === null);
+    if (pages) setSelected(pages);
+  };
+
+  const toggle = (pageNumber: number) => {
+    setSelected(prev => prev.includes(pageNumber)
+      ? prev.filter(p => p !== pageNumber)
+      : [...prev, pageNumber].sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40">
+      <div className="bg-white rounded-xl shadow-2xl w-[44rem] max-w-full max-h-[90vh] flex flex-col p-6">
+        <h3 className="text-lg font-bold text-gray-800 mb-1">匯入 PDF</h3>
+        <p className="text-sm text-gray-500 mb-4 truncate" title={fileName}>{fileName} · 共 {pageCount} 頁</p>
+
+        <div className="grid grid-cols-3 gap-3 text-sm mb-4">
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">頁面範圍</label>
+            <input
+              type="text"
+              value={rangeText}
+              onChange={(e) => applyRange(e.target.value)}
+              placeholder="例如 1-5, 8"
+              className={`w-full border rounded px-2 py-1.5 ${rangeError ? 'border-red-400' : 'border-gray-300'}`}
+            />
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">解析度</label>
+            <select
+              value={dpi}
+              onChange={(e) => setDpi(parseInt(e.target.value))}
+              className="w-full border border-gray-300 rounded px-2 py-1.5"
+            >
+              {DPI_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            {pixelSize && <p className="text-xs text-gray-400 mt-1">約 {pixelSize.width} × {pixelSize.height} px</p>}
+          </div>
+          <div>
+            <label className="block font-medium text-gray-700 mb-1">圖片格式</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as PdfImageFormat)}
+              className="w-full border border-gray-300 rounded px-2 py-1.5"
+            >
+              <option value="png">PNG (無損，修補效果較好)</option>
+              <option value="jpeg">JPEG (檔案較小)</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center text-sm mb-2">
+          <span className="font-medium text-gray-700">已選擇 {selected.length}/{pageCount} 頁</span>
+          <div className="space-x-3 text-xs">
+            <button onClick={() => applyRange(`1-${pageCount}`)} className="text-blue-600 hover:text-blue-800">全選</button>
+            <button onClick={() => { setSelected([]); setRangeText(''); setRangeError(false); }} className="text-gray-500 hover:text-gray-700">全不選</button>
+          </div>
+        </div>
+        <div className="grid grid-cols-6 gap-2 overflow-y-auto min-h-0 border rounded p-2 bg-gray-50">
+          {allPages.map(pageNumber => (
+            <PageThumbnail
+              key={pageNumber}
+              pageNumber={pageNumber}
+              selected={selected.includes(pageNumber)}
+              requestRender={requestRender}
+              onToggle={() => toggle(pageNumber)}
+            />
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-2 mt-6">
+          <button onClick={onSkip} className="px-3 py-2 text-gray-600 text-sm hover:text-gray-800">略過此檔案</button>
+          <button
+            onClick={() => onImport({ pageNumbers: selected, dpi, format })}
+            disabled={selected.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 text-sm"
+          >
+            匯入 {selected.length} 頁
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfImportDialog;
@@ -1,17 +1,99 @@
 import React from 'react';
+import { BatchState, BatchJobStage } from '../types';
 
 interface ProcessingOverlayProps {
   status: string;
+  progress?: number | null; // 0-1 for a single-slide job, null/undefined if unknown
+  batch?: BatchState | null;
+  slideLabels?: Record<string, string>; // slideId -> display label (e.g. "Page 3")
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
 }
 
-const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({ status }) => {
+const STAGE_LABELS: Record<BatchJobStage, string> = {
+  queued: '等待中',
+  detecting: '偵測文字',
+  ocr: '辨識文字',
+  translating: '翻譯文字',
+  inpainting: '修補背景',
+  done: '完成',
+  error: '失敗',
+  cancelled: '已取消',
+};
+
+const STAGE_COLORS: Record<BatchJobStage, string> = {
+  queued: 'text-gray-400',
+  detecting: 'text-blue-300',
+  ocr: 'text-blue-300',
+  translating: 'text-blue-300',
+  inpainting: 'text-blue-300',
+  done: 'text-green-400',
+  error: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({ status, progress, batch, slideLabels = {}, onPause, onResume, onCancel }) => {
+  if (batch) {
+    const finished = batch.jobs.filter(j => j.stage === 'done' || j.stage === 'error' || j.stage === 'cancelled').length;
+    const percent = batch.jobs.length > 0 ? Math.round((finished / batch.jobs.length) * 100) : 0;
+
+    return (
+      <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black/70 backdrop-blur-sm">
+        <div className="w-[28rem] max-w-full px-4">
+          <h2 className="text-2xl font-bold text-white mb-1 text-center">{status}</h2>
+          <p className="text-gray-300 text-sm text-center mb-4">
+            {batch.isPaused ? '已暫停，進行中的步驟完成後停止' : `已完成 ${finished} / ${batch.jobs.length}`}
+          </p>
+
+          <div className="h-2 bg-white/20 rounded-full overflow-hidden mb-4">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }}></div>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto bg-black/30 rounded-lg p-2 space-y-1 mb-4">
+            {batch.jobs.map(job => (
+              <div key={job.slideId} className="flex justify-between items-center text-sm px-2 py-1">
+                <span className="text-gray-200">{slideLabels[job.slideId] || job.slideId}</span>
+                <span className={STAGE_COLORS[job.stage]} title={job.error}>
+                  {STAGE_LABELS[job.stage]}
+                  {job.stage === 'inpainting' && job.progress !== undefined && ` ${Math.round(job.progress * 100)}%`}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-center space-x-3">
+            {batch.isPaused ? (
+              <button onClick={onResume} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm">繼續</button>
+            ) : (
+              <button onClick={onPause} className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg text-sm">暫停</button>
+            )}
+            <button onClick={onCancel} className="px-4 py-2 bg-red-600/80 hover:bg-red-600 text-white rounded-lg text-sm">取消</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black/70 backdrop-blur-sm">
       <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
       <h2 className="text-2xl font-bold text-white mb-2">{status}</h2>
-      <p className="text-gray-300 text-sm">請稍候，AI 正在分析圖片...</p>
+      {progress !== null && progress !== undefined ? (
+        <div className="w-72 max-w-full mt-2">
+          <div className="h-2 bg-white/20 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+          </div>
+          <p className="text-gray-300 text-sm text-center mt-2">{Math.round(progress * 100)}%</p>
+        </div>
+      ) : (
+        <p className="text-gray-300 text-sm">請稍候，AI 正在分析圖片...</p>
+      )}
+      {onCancel && (
+        <button onClick={onCancel} className="mt-6 px-4 py-2 bg-red-600/80 hover:bg-red-600 text-white rounded-lg text-sm">取消</button>
+      )}
     </div>
   );
 };
 
-export default ProcessingOverlay;
\ No newline at end of file
+export default ProcessingOverlay;
@@ -1,17 +1,34 @@
 
 import React, { useState } from 'react';
+import { OCRProviderSettings, OCRProviderType } from '../types';
 
 interface StepApiKeyProps {
-  onSave: (key: string) => void;
+  onSave: (settings: OCRProviderSettings) => void;
 }
 
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+
 const StepApiKey: React.FC<StepApiKeyProps> = ({ onSave }) => {
+  const [providerType, setProviderType] = useState<OCRProviderType>('gemini');
   const [inputKey, setInputKey] = useState('');
+  const [baseUrl, setBaseUrl] = useState(DEFAULT_LOCAL_BASE_URL);
+  const [model, setModel] = useState('');
+
+  const isGemini = providerType === 'gemini';
+  const canSubmit = isGemini ? inputKey.trim().length > 0 : baseUrl.trim().length > 0 && model.trim().length > 0;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputKey.trim().length > 0) {
-      onSave(inputKey.trim());
+    if (!canSubmit) return;
+    if (isGemini) {
+      onSave({ type: 'gemini', apiKey: inputKey.trim() });
+    } else {
+      onSave({
+        type: 'openai-compatible',
+        apiKey: inputKey.trim(),
+        baseUrl: baseUrl.trim(),
+        model: model.trim()
+      });
     }
   };
 
@@ -25,36 +42,88 @@ const StepApiKey: React.FC<StepApiKeyProps> = ({ onSave }) => {
         </div>
         
         <h2 className="text-2xl font-bold text-gray-800 text-center mb-2">歡迎使用 TextEraser</h2>
-        <p className="text-gray-500 text-center mb-8 text-sm">
-          請輸入您的 Google Gemini API Key 以開始使用。<br/>
-          您的 Key 僅會儲存在本地瀏覽器中。
+        <p className="text-gray-500 text-center mb-6 text-sm">
+          請選擇文字辨識 (OCR) 服務以開始使用。<br/>
+          您的設定僅會儲存在本地瀏覽器中。
         </p>
 
+        <div className="flex bg-gray-100 rounded-lg p-1 border mb-6">
+          <button
+            type="button"
+            onClick={() => setProviderType('gemini')}
+            className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium ${isGemini ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600'}`}
+          >
+            Google Gemini
+          </button>
+          <button
+            type="button"
+            onClick={() => setProviderType('openai-compatible')}
+            className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium ${!isGemini ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600'}`}
+          >
+            本地 / OpenAI 相容
+          </button>
+        </div>
+
         <form onSubmit={handleSubmit} className="space-y-4">
+          {!isGemini && (
+            <>
+              <div>
+                <label htmlFor="baseUrl" className="block text-sm font-medium text-gray-700 mb-1">
+                  服務網址 (Base URL)
+                </label>
+                <input
+                  id="baseUrl"
+                  type="url"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder={DEFAULT_LOCAL_BASE_URL}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  required
+                />
+                <p className="text-xs text-gray-400 mt-1">例如本地 Ollama 或 vLLM 伺服器，圖片不會離開您的網路。</p>
+              </div>
+              <div>
+                <label htmlFor="model" className="block text-sm font-medium text-gray-700 mb-1">
+                  視覺模型名稱
+                </label>
+                <input
+                  id="model"
+                  type="text"
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  placeholder="qwen2.5vl"
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
+                  required
+                />
+              </div>
+            </>
+          )}
+
           <div>
             <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 mb-1">
-              Gemini API Key
+              {isGemini ? 'Gemini API Key' : 'API Key (選填)'}
             </label>
             <input
               id="apiKey"
               type="password"
               value={inputKey}
               onChange={(e) => setInputKey(e.target.value)}
-              placeholder="AIzaSy..."
+              placeholder={isGemini ? 'AIzaSy...' : ''}
               className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all"
-              required
+              required={isGemini}
             />
           </div>
 
           <button
             type="submit"
-            disabled={!inputKey}
+            disabled={!canSubmit}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-semibold py-3 rounded-lg transition-colors shadow-md"
           >
             開始使用
           </button>
         </form>
 
+        {isGemini && (
         <div className="mt-6 text-center">
           <a 
             href="https://aistudio.google.com/app/apikey" 
@@ -68,6 +137,7 @@ const StepApiKey: React.FC<StepApiKeyProps> = ({ onSave }) => {
             </svg>
           </a>
         </div>
+        )}
       </div>
     </div>
   );
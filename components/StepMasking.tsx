@@ -1,18 +1,62 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { detectTextRegions } from '../services/geminiService';
+import { detectTextRegions } from '../services/ocrService';
+import { OCRProviderSettings, OCRResult } from '../types';
 import { InpaintMode } from '../services/openaiService';
+import { floodSelect, MaskRefinement, DEFAULT_MASK_REFINEMENT } from '../services/maskService';
 
 interface StepMaskingProps {
   imageSrc: string;
-  apiKey: string;
-  onConfirm: (maskForInpainting: string, mode: InpaintMode) => void;
+  originalImageSrc?: string; // Refine mode: lets the user re-run from the original instead
+  initialMaskSrc?: string | null; // Mask of the previous run, preloaded for editing
+  ocrSettings: OCRProviderSettings | null;
+  textLayer?: OCRResult[] | null; // Embedded PDF text; auto-detect uses it instead of the model
+  // Refinement is applied off the main thread, together with inpainting
+  onConfirm: (maskForInpainting: string, mode: InpaintMode, fromOriginal: boolean, refinement: MaskRefinement | null) => void;
   onCancel: () => void;
 }
 
-type ToolType = 'brush' | 'rect' | 'eraser' | 'eraser-rect';
+type ToolType =
+  | 'brush' | 'rect' | 'lasso' | 'polygon' | 'wand'
+  | 'eraser' | 'eraser-rect' | 'eraser-lasso' | 'eraser-polygon';
 
-const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm, onCancel }) => {
+type Point = { x: number; y: number };
+
+const SELECTION_FILL = 'rgba(255, 0, 0, 0.5)';
+// Clicking within this many screen pixels of the first vertex closes the polygon
+const POLYGON_CLOSE_DISTANCE = 10;
+
+interface ViewState {
+  zoom: number; // CSS px per image px
+  panX: number; // Image offset inside the viewport (CSS px)
+  panY: number;
+}
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+const WHEEL_ZOOM_STEP = 1.15;
+const FIT_PADDING = 16;
+const MINIMAP_WIDTH = 160;
+
+const isSubtractTool = (tool: ToolType) => tool.startsWith('eraser');
+const isLassoTool = (tool: ToolType) => tool === 'lasso' || tool === 'eraser-lasso';
+const isPolygonTool = (tool: ToolType) => tool === 'polygon' || tool === 'eraser-polygon';
+
+/**
+ * Fills a closed path on the mask canvas, adding to or subtracting from the selection.
+ */
+const fillPath = (ctx: CanvasRenderingContext2D, points: Point[], subtract: boolean) => {
+  if (points.length < 3) return;
+  ctx.globalCompositeOperation = subtract ? 'destination-out' : 'source-over';
+  ctx.fillStyle = subtract ? 'rgba(0,0,0,1)' : SELECTION_FILL;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+  ctx.fill();
+};
+
+const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, originalImageSrc, initialMaskSrc, ocrSettings, textLayer, onConfirm, onCancel }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
@@ -23,6 +67,9 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
   const [brushSize, setBrushSize] = useState(30);
   const [isDrawing, setIsDrawing] = useState(false);
   const [fillMode, setFillMode] = useState<InpaintMode>('chart');
+  const [refinement, setRefinement] = useState<MaskRefinement>(DEFAULT_MASK_REFINEMENT);
+  const [fromOriginal, setFromOriginal] = useState(false);
+  const displaySrc = fromOriginal && originalImageSrc ? originalImageSrc : imageSrc;
   
   // History for Undo
   const [history, setHistory] = useState<ImageData[]>([]);
@@ -34,33 +81,225 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
   const startPosRef = useRef<{x: number, y: number} | null>(null);
   const snapshotRef = useRef<ImageData | null>(null);
 
-  // Scaling state for cursor
-  const [scaleFactor, setScaleFactor] = useState(1);
+  // Lasso / polygon vertices (image coordinates)
+  const pathPointsRef = useRef<Point[]>([]);
+
+  // Magic wand state
+  const [wandTolerance, setWandTolerance] = useState(32);
+  const [wandFillHoles, setWandFillHoles] = useState(true);
+  const sourcePixelsRef = useRef<{ src: string; data: ImageData } | null>(null);
+
+  // Zoom / pan state. In fit mode the view follows the container size.
+  const [view, setView] = useState<ViewState>({ zoom: 1, panX: 0, panY: 0 });
+  const [isFitMode, setIsFitMode] = useState(true);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 });
+  const [isSpacePressed, setIsSpacePressed] = useState(false);
+  const panStartRef = useRef<{ clientX: number; clientY: number; panX: number; panY: number } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+
+  // Scaling state for cursor (screen px per image px)
+  const scaleFactor = view.zoom;
   const [isHoveringCanvas, setIsHoveringCanvas] = useState(false);
 
-  const initCanvas = () => {
+  const isCanvasReadyRef = useRef(false);
+
+  /** Shows a stored mask (transparent = erase) as the red selection overlay. */
+  const drawMaskAsSelection = (maskSrc: string): Promise<void> => {
+    return new Promise((resolve) => {
+      const mask = new Image();
+      mask.onload = () => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return resolve();
+        const maskCanvas = document.createElement('canvas');
+        maskCanvas.width = canvas.width;
+        maskCanvas.height = canvas.height;
+        const maskCtx = maskCanvas.getContext('2d');
+        if (!maskCtx) return resolve();
+        maskCtx.drawImage(mask, 0, 0, canvas.width, canvas.height);
+        const maskData = maskCtx.getImageData(0, 0, canvas.width, canvas.height);
+        const overlay = ctx.createImageData(canvas.width, canvas.height);
+        for (let i = 0; i < maskData.data.length; i += 4) {
+          if (maskData.data[i + 3] < 128) {
+            overlay.data[i] = 255;
+            overlay.data[i + 3] = 128; // Same as SELECTION_FILL
+          }
+        }
+        ctx.putImageData(overlay, 0, 0);
+        resolve();
+      };
+      mask.onerror = () => {
+        console.warn("Could not load the previous mask");
+        resolve();
+      };
+      mask.src = maskSrc;
+    });
+  };
+
+  const initCanvas = async () => {
     if (imageRef.current && canvasRef.current) {
       const { naturalWidth, naturalHeight } = imageRef.current;
+      // Switching between processed and original image keeps the current selection
+      if (isCanvasReadyRef.current && canvasRef.current.width === naturalWidth && canvasRef.current.height === naturalHeight) {
+        return;
+      }
+      isCanvasReadyRef.current = true;
       canvasRef.current.width = naturalWidth;
       canvasRef.current.height = naturalHeight;
-      updateScaleFactor();
+      setNaturalSize({ width: naturalWidth, height: naturalHeight });
+      setIsFitMode(true);
+      if (initialMaskSrc) await drawMaskAsSelection(initialMaskSrc);
       saveHistory();
     }
   };
 
-  const updateScaleFactor = () => {
-    if (imageRef.current) {
-        const rect = imageRef.current.getBoundingClientRect();
-        const currentScale = rect.width / imageRef.current.naturalWidth;
-        setScaleFactor(currentScale);
+  const updateContainerSize = () => {
+    if (containerRef.current) {
+        const rect = containerRef.current.getBoundingClientRect();
+        setContainerSize({ width: rect.width, height: rect.height });
     }
   };
 
+  // The viewport also changes size when side panels open or close, not only with the window
   useEffect(() => {
-    window.addEventListener('resize', updateScaleFactor);
-    return () => window.removeEventListener('resize', updateScaleFactor);
+    const container = containerRef.current;
+    if (!container) return;
+    updateContainerSize();
+    const observer = new ResizeObserver(() => updateContainerSize());
+    observer.observe(container);
+    return () => observer.disconnect();
   }, []);
 
+  /** Keeps the image centered when it is smaller than the viewport, otherwise within its edges. */
+  const clampView = (next: ViewState): ViewState => {
+    const clampAxis = (pan: number, imageSize: number, viewportSize: number) => {
+      const scaled = imageSize * next.zoom;
+      if (scaled <= viewportSize) return (viewportSize - scaled) / 2;
+      return Math.min(0, Math.max(viewportSize - scaled, pan));
+    };
+    return {
+      zoom: next.zoom,
+      panX: clampAxis(next.panX, naturalSize.width, containerSize.width),
+      panY: clampAxis(next.panY, naturalSize.height, containerSize.height),
+    };
+  };
+
+  const getFitZoom = () => {
+    if (!naturalSize.width || !naturalSize.height) return 1;
+    return Math.min(
+      (containerSize.width - FIT_PADDING * 2) / naturalSize.width,
+      (containerSize.height - FIT_PADDING * 2) / naturalSize.height
+    );
+  };
+
+  useEffect(() => {
+    if (isFitMode) setView(clampView({ zoom: getFitZoom(), panX: 0, panY: 0 }));
+  }, [isFitMode, containerSize, naturalSize]);
+
+  /** Zooms while keeping the image point under (anchorX, anchorY) (viewport px) in place. */
+  const zoomAt = (nextZoom: number, anchorX: number, anchorY: number) => {
+    setIsFitMode(false);
+    setView(prev => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, nextZoom));
+      const ratio = zoom / prev.zoom;
+      return clampView({
+        zoom,
+        panX: anchorX - (anchorX - prev.panX) * ratio,
+        panY: anchorY - (anchorY - prev.panY) * ratio,
+      });
+    });
+  };
+
+  const zoomToPreset = (zoom: number | 'fit') => {
+    if (zoom === 'fit') {
+      setIsFitMode(true);
+      return;
+    }
+    zoomAt(zoom, containerSize.width / 2, containerSize.height / 2);
+  };
+
+  // Wheel zoom around the cursor (native listener so the page doesn't scroll).
+  // The listener is attached once and reads the latest view through a ref.
+  const handleWheelRef = useRef<(e: WheelEvent) => void>(() => {});
+  handleWheelRef.current = (e: WheelEvent) => {
+    const container = containerRef.current;
+    if (!container) return;
+    e.preventDefault();
+    const rect = container.getBoundingClientRect();
+    const factor = e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+    zoomAt(view.zoom * factor, e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => handleWheelRef.current(e);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Hold space to pan
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      setIsSpacePressed(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      setIsSpacePressed(false);
+      panStartRef.current = null;
+      setIsPanning(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
+  const startPan = (e: React.MouseEvent) => {
+    if (!isSpacePressed) return;
+    e.preventDefault();
+    panStartRef.current = { clientX: e.clientX, clientY: e.clientY, panX: view.panX, panY: view.panY };
+    setIsPanning(true);
+  };
+
+  const movePan = (e: React.MouseEvent) => {
+    const start = panStartRef.current;
+    if (!start) return;
+    setIsFitMode(false);
+    setView(prev => clampView({
+      zoom: prev.zoom,
+      panX: start.panX + e.clientX - start.clientX,
+      panY: start.panY + e.clientY - start.clientY,
+    }));
+  };
+
+  const endPan = () => {
+    panStartRef.current = null;
+    setIsPanning(false);
+  };
+
+  /** Centers the viewport on the minimap position under the mouse. */
+  const handleMinimapPointer = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.type === 'mousemove' && e.buttons !== 1) return;
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const imageX = ((e.clientX - rect.left) / rect.width) * naturalSize.width;
+    const imageY = ((e.clientY - rect.top) / rect.height) * naturalSize.height;
+    setIsFitMode(false);
+    setView(prev => clampView({
+      zoom: prev.zoom,
+      panX: containerSize.width / 2 - imageX * prev.zoom,
+      panY: containerSize.height / 2 - imageY * prev.zoom,
+    }));
+  };
+
   useEffect(() => {
     if (imageRef.current && imageRef.current.complete) {
       initCanvas();
@@ -100,10 +339,10 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
   };
 
   const handleAutoDetect = async () => {
-    if (!imageSrc || !apiKey) return;
+    if (!displaySrc || (!ocrSettings && !textLayer)) return;
     setIsDetecting(true);
     try {
-      const regions = await detectTextRegions(apiKey, imageSrc);
+      const regions = textLayer ? textLayer.map(line => line.box) : await detectTextRegions(ocrSettings!, displaySrc);
       if (canvasRef.current && imageRef.current) {
         const ctx = canvasRef.current.getContext('2d');
         const width = canvasRef.current.width;
@@ -128,7 +367,7 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
       }
     } catch (e) {
       console.error(e);
-      alert("自動偵測失敗，請檢查 API Key 是否有效。");
+      alert("自動偵測失敗，請檢查 OCR 服務設定是否正確。");
     } finally {
       setIsDetecting(false);
     }
@@ -157,10 +396,134 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
     };
   };
 
+  const getSourcePixels = (): ImageData | null => {
+    if (!imageRef.current || !canvasRef.current) return null;
+    if (sourcePixelsRef.current?.src === displaySrc) return sourcePixelsRef.current.data;
+    const { width, height } = canvasRef.current;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(imageRef.current, 0, 0, width, height);
+    const data = ctx.getImageData(0, 0, width, height);
+    sourcePixelsRef.current = { src: displaySrc, data };
+    return data;
+  };
+
+  const applyMagicWand = (x: number, y: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const pixels = getSourcePixels();
+    if (!ctx || !pixels) return;
+
+    const selected = floodSelect(pixels, Math.floor(x), Math.floor(y), wandTolerance, wandFillHoles);
+    const overlay = new ImageData(pixels.width, pixels.height);
+    for (let p = 0; p < selected.length; p++) {
+      if (!selected[p]) continue;
+      overlay.data[p * 4] = 255;
+      overlay.data[p * 4 + 3] = 128; // Same as SELECTION_FILL
+    }
+    // Draw through a canvas so the selection composites like the other tools
+    const overlayCanvas = document.createElement('canvas');
+    overlayCanvas.width = pixels.width;
+    overlayCanvas.height = pixels.height;
+    overlayCanvas.getContext('2d')?.putImageData(overlay, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.drawImage(overlayCanvas, 0, 0);
+    saveHistory();
+  };
+
+  /** Redraws the in-progress polygon, optionally with a rubber band edge to the cursor. */
+  const previewPolygon = (cursor?: Point) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const points = pathPointsRef.current;
+    if (!ctx || !snapshotRef.current || points.length === 0) return;
+    ctx.putImageData(snapshotRef.current, 0, 0);
+
+    const outline = cursor ? [...points, cursor] : points;
+    fillPath(ctx, outline, isSubtractTool(activeTool));
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.strokeStyle = 'rgba(37, 99, 235, 0.9)';
+    ctx.lineWidth = 2 / scaleFactor;
+    ctx.beginPath();
+    ctx.moveTo(outline[0].x, outline[0].y);
+    outline.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+  };
+
+  const resetPolygon = () => {
+    pathPointsRef.current = [];
+    snapshotRef.current = null;
+  };
+
+  const commitPolygon = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const points = pathPointsRef.current;
+    if (!ctx || !snapshotRef.current) return;
+    ctx.putImageData(snapshotRef.current, 0, 0);
+    if (points.length >= 3) {
+      fillPath(ctx, points, isSubtractTool(activeTool));
+      saveHistory();
+    }
+    resetPolygon();
+  };
+
+  const cancelPolygon = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && snapshotRef.current) ctx.putImageData(snapshotRef.current, 0, 0);
+    resetPolygon();
+  };
+
+  const addPolygonPoint = (x: number, y: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !canvasRef.current) return;
+    const points = pathPointsRef.current;
+    if (points.length === 0) {
+      snapshotRef.current = ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
+    } else if (points.length >= 3) {
+      const first = points[0];
+      if (Math.hypot(first.x - x, first.y - y) * scaleFactor <= POLYGON_CLOSE_DISTANCE) {
+        commitPolygon();
+        return;
+      }
+    }
+    points.push({ x, y });
+    previewPolygon();
+  };
+
+  // Switching tools abandons an unfinished polygon
+  useEffect(() => {
+    cancelPolygon();
+  }, [activeTool]);
+
+  // Enter closes the polygon, Escape discards it
+  useEffect(() => {
+    if (!isPolygonTool(activeTool)) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (pathPointsRef.current.length === 0) return;
+      if (e.key === 'Enter') commitPolygon();
+      if (e.key === 'Escape') cancelPolygon();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
     e.preventDefault(); 
-    setIsDrawing(true);
+    if (isSpacePressed) return; // Panning, handled by the container
     const { x, y } = getCoordinates(e);
+
+    // Click tools: no drag involved
+    if (activeTool === 'wand') {
+      applyMagicWand(x, y);
+      return;
+    }
+    if (isPolygonTool(activeTool)) {
+      addPolygonPoint(x, y);
+      return;
+    }
+
+    setIsDrawing(true);
     const ctx = canvasRef.current?.getContext('2d');
     
     if (!ctx || !canvasRef.current) return;
@@ -183,6 +546,9 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
       // For rect tools, we save a snapshot to restore on each frame
       snapshotRef.current = ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
       startPosRef.current = { x, y };
+    } else if (isLassoTool(activeTool)) {
+      snapshotRef.current = ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
+      pathPointsRef.current = [{ x, y }];
     }
   };
 
@@ -192,6 +558,11 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
         cursorRef.current.style.transform = `translate(${clientX}px, ${clientY}px)`;
     }
 
+    if (isPolygonTool(activeTool) && pathPointsRef.current.length > 0) {
+      previewPolygon({ x, y });
+      return;
+    }
+
     if (!isDrawing) return;
     e.preventDefault();
     const ctx = canvasRef.current?.getContext('2d');
@@ -218,6 +589,10 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
         ctx.fillStyle = 'rgba(0,0,0,1)';
         ctx.fillRect(startX, startY, width, height);
       }
+    } else if (isLassoTool(activeTool) && snapshotRef.current) {
+      pathPointsRef.current.push({ x, y });
+      ctx.putImageData(snapshotRef.current, 0, 0);
+      fillPath(ctx, pathPointsRef.current, isSubtractTool(activeTool));
     }
   };
 
@@ -230,6 +605,7 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
       setIsDrawing(false);
       startPosRef.current = null;
       snapshotRef.current = null;
+      pathPointsRef.current = [];
       saveHistory();
     }
   };
@@ -253,7 +629,8 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
         }
     }
     const maskBase64 = maskCanvas.toDataURL('image/png');
-    onConfirm(maskBase64, fillMode);
+    const isRefined = refinement.dilate > 0 || refinement.erode > 0 || refinement.feather > 0 || refinement.tightenToText;
+    onConfirm(maskBase64, fillMode, fromOriginal && !!originalImageSrc, isRefined ? refinement : null);
   };
   
   // Logic to clear canvas on Cancel
@@ -287,7 +664,7 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
             left: 0,
             marginTop: `-${cursorSizePx / 2}px`,
             marginLeft: `-${cursorSizePx / 2}px`,
-            display: isHoveringCanvas && (activeTool === 'brush' || activeTool === 'eraser') ? 'block' : 'none',
+            display: isHoveringCanvas && !isSpacePressed && (activeTool === 'brush' || activeTool === 'eraser') ? 'block' : 'none',
         }}
       >
         <div className="w-full h-full border border-white rounded-full opacity-50"></div>
@@ -351,6 +728,23 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
                 >框擦</button>
             </div>
 
+            <div className="flex bg-gray-100 rounded-lg p-1 border shrink-0">
+                {([
+                  ['lasso', '套索', '套索 (手繪選取)'],
+                  ['eraser-lasso', '套索擦', '套索擦除'],
+                  ['polygon', '多邊形', '多邊形選取 (點擊新增頂點，雙擊或 Enter 完成，Esc 取消)'],
+                  ['eraser-polygon', '多邊形擦', '多邊形擦除 (點擊新增頂點，雙擊或 Enter 完成，Esc 取消)'],
+                  ['wand', '魔術棒', '魔術棒 (選取相近顏色的相連區域)'],
+                ] as const).map(([tool, label, title]) => (
+                  <button
+                    key={tool}
+                    onClick={() => setActiveTool(tool)}
+                    className={`px-3 py-1.5 rounded-md text-sm font-medium whitespace-nowrap ${activeTool === tool ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600'}`}
+                    title={title}
+                  >{label}</button>
+                ))}
+            </div>
+
             {(activeTool === 'brush' || activeTool === 'eraser') && (
               <input 
                 type="range" min="5" max="100" value={brushSize} 
@@ -358,6 +752,22 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
                 className="w-20 accent-blue-600"
               />
             )}
+
+            {activeTool === 'wand' && (
+              <div className="flex items-center space-x-2 shrink-0 text-sm">
+                <span className="text-gray-600" title="顏色差異容許值">容許值</span>
+                <input
+                  type="range" min="0" max="128" value={wandTolerance}
+                  onChange={(e) => setWandTolerance(parseInt(e.target.value))}
+                  className="w-20 accent-blue-600"
+                />
+                <span className="w-6 text-xs text-gray-500">{wandTolerance}</span>
+                <label className="flex items-center space-x-1 cursor-pointer" title="一併選取被包圍的區域，例如色塊上的文字">
+                  <input type="checkbox" checked={wandFillHoles} onChange={(e) => setWandFillHoles(e.target.checked)} />
+                  <span className="text-gray-600">填滿內部</span>
+                </label>
+              </div>
+            )}
             
             <button onClick={handleUndo} className="p-2 text-gray-500 hover:bg-gray-100 rounded">
               <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor"><path d="M12.5 8c-2.65 0-5.05.99-6.9 2.6L2 7v9h9l-3.62-3.62c1.39-1.16 3.16-1.88 5.12-1.88 3.54 0 6.55 2.31 7.6 5.5l2.37-.78C21.08 11.03 17.15 8 12.5 8z"/></svg>
@@ -376,6 +786,37 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
           </div>
         </div>
 
+        {/* Mask Refinement Bar */}
+        <div className="bg-gray-50 px-4 py-2 flex items-center space-x-4 border-t text-sm overflow-x-auto">
+           <span className="font-semibold text-gray-700 shrink-0">遮罩調整:</span>
+
+           <label className="flex items-center space-x-2 cursor-pointer shrink-0" title="只清除與背景對比明顯的文字筆畫，保留選取範圍內的背景細節">
+             <input
+               type="checkbox"
+               checked={refinement.tightenToText}
+               onChange={(e) => setRefinement(prev => ({ ...prev, tightenToText: e.target.checked }))}
+               className="text-blue-600 focus:ring-blue-500"
+             />
+             <span className={refinement.tightenToText ? 'text-gray-900 font-medium' : 'text-gray-500'}>貼合文字筆畫</span>
+           </label>
+
+           {([
+             ['dilate', '擴張', '向外擴大清除範圍，去除文字殘邊'],
+             ['erode', '收縮', '向內縮小清除範圍，保留更多背景'],
+             ['feather', '羽化', '柔化邊緣，讓修補處與背景自然融合'],
+           ] as const).map(([key, label, hint]) => (
+             <label key={key} className="flex items-center space-x-2 shrink-0" title={hint}>
+               <span className="text-gray-600">{label}</span>
+               <input
+                 type="range" min="0" max="20" value={refinement[key]}
+                 onChange={(e) => setRefinement(prev => ({ ...prev, [key]: parseInt(e.target.value) }))}
+                 className="w-20 accent-blue-600"
+               />
+               <span className="w-10 text-xs text-gray-500">{refinement[key]}px</span>
+             </label>
+           ))}
+        </div>
+
         {/* Fill Mode Settings Bar */}
         <div className="bg-gray-50 px-4 py-2 flex items-center space-x-4 border-t text-sm">
            <span className="font-semibold text-gray-700">修補模式:</span>
@@ -405,44 +846,114 @@ const StepMasking: React.FC<StepMaskingProps> = ({ imageSrc, apiKey, onConfirm,
                真實照片/天空 (Canva 魔法風格)
              </span>
            </label>
+
+           <label className="flex items-center space-x-2 cursor-pointer">
+             <input 
+               type="radio" 
+               name="fillMode" 
+               checked={fillMode === 'texture'} 
+               onChange={() => setFillMode('texture')}
+               className="text-blue-600 focus:ring-blue-500"
+             />
+             <span className={fillMode === 'texture' ? 'text-gray-900 font-medium' : 'text-gray-500'}>
+               紋理/材質 (紙張、網點背景)
+             </span>
+           </label>
            
            <span className="text-xs text-green-600 ml-2">
              *更新：多層次融合技術，無條紋
            </span>
+
+           {originalImageSrc && (
+             <label className="flex items-center space-x-2 cursor-pointer ml-auto shrink-0" title="以編輯後的遮罩從原圖重新修補，而不是在目前結果上疊加修正">
+               <input
+                 type="checkbox"
+                 checked={fromOriginal}
+                 onChange={(e) => setFromOriginal(e.target.checked)}
+                 className="text-blue-600 focus:ring-blue-500"
+               />
+               <span className={fromOriginal ? 'text-gray-900 font-medium' : 'text-gray-500'}>從原圖重新處理</span>
+             </label>
+           )}
         </div>
       </div>
 
       <div 
         ref={containerRef} 
-        className="flex-1 overflow-hidden flex items-center justify-center p-4 relative w-full h-full select-none"
+        className="flex-1 overflow-hidden relative w-full h-full select-none"
+        style={{ cursor: isSpacePressed ? (isPanning ? 'grabbing' : 'grab') : undefined }}
+        onMouseDown={startPan}
+        onMouseMove={movePan}
+        onMouseUp={endPan}
+        onMouseLeave={endPan}
       >
         <div 
-            className="relative inline-block shadow-2xl border border-gray-200"
+            className="absolute top-0 left-0 shadow-2xl border border-gray-200"
+            style={{
+              width: `${naturalSize.width * view.zoom}px`,
+              height: `${naturalSize.height * view.zoom}px`,
+              transform: `translate(${view.panX}px, ${view.panY}px)`,
+            }}
             onMouseEnter={() => setIsHoveringCanvas(true)}
             onMouseLeave={() => setIsHoveringCanvas(false)}
         >
           <img 
             ref={imageRef}
-            src={imageSrc} 
+            src={displaySrc} 
             alt="Original" 
             onLoad={initCanvas}
-            className="block max-w-full max-h-[calc(100vh-180px)] object-contain"
-            style={{ pointerEvents: 'none' }} 
+            className="block w-full h-full"
+            style={{ pointerEvents: 'none', imageRendering: view.zoom >= 2 ? 'pixelated' : 'auto' }} 
           />
           <canvas
             ref={canvasRef}
             className={`absolute top-0 left-0 w-full h-full touch-none ${
-                (activeTool === 'brush' || activeTool === 'eraser') ? 'cursor-none' : 'cursor-crosshair'
+                isSpacePressed ? '' : (activeTool === 'brush' || activeTool === 'eraser') ? 'cursor-none' : 'cursor-crosshair'
             }`}
             onMouseDown={startDrawing}
             onMouseMove={draw}
             onMouseUp={stopDrawing}
             onMouseLeave={stopDrawing}
+            onDoubleClick={() => isPolygonTool(activeTool) && commitPolygon()}
             onTouchStart={startDrawing}
             onTouchMove={draw}
             onTouchEnd={stopDrawing}
           />
         </div>
+
+        {/* Zoom Controls */}
+        <div className="absolute left-3 bottom-3 flex items-center bg-white/90 rounded-lg shadow border text-sm" onMouseDown={e => e.stopPropagation()}>
+          <button onClick={() => zoomToPreset(view.zoom / WHEEL_ZOOM_STEP)} className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded-l-lg" title="縮小">−</button>
+          <span className="w-14 text-center text-gray-700 tabular-nums">{Math.round(view.zoom * 100)}%</span>
+          <button onClick={() => zoomToPreset(view.zoom * WHEEL_ZOOM_STEP)} className="px-2 py-1 text-gray-600 hover:bg-gray-100" title="放大">+</button>
+          <div className="w-px h-5 bg-gray-200"></div>
+          <button onClick={() => zoomToPreset('fit')} className={`px-2 py-1 hover:bg-gray-100 ${isFitMode ? 'text-blue-600 font-medium' : 'text-gray-600'}`}>符合視窗</button>
+          <button onClick={() => zoomToPreset(1)} className="px-2 py-1 text-gray-600 hover:bg-gray-100">100%</button>
+          <button onClick={() => zoomToPreset(2)} className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded-r-lg">200%</button>
+          <span className="px-2 text-xs text-gray-400 hidden md:inline">滾輪縮放．按住空白鍵拖曳平移</span>
+        </div>
+
+        {/* Minimap (only when the image doesn't fit) */}
+        {naturalSize.width > 0 && (naturalSize.width * view.zoom > containerSize.width || naturalSize.height * view.zoom > containerSize.height) && (
+          <div
+            className="absolute right-3 bottom-3 bg-white/90 p-1 rounded shadow border cursor-pointer"
+            onMouseDown={handleMinimapPointer}
+            onMouseMove={handleMinimapPointer}
+          >
+            <div className="relative" style={{ width: MINIMAP_WIDTH, height: (naturalSize.height / naturalSize.width) * MINIMAP_WIDTH }}>
+              <img src={displaySrc} alt="" className="block w-full h-full pointer-events-none" />
+              <div
+                className="absolute border-2 border-red-500 bg-red-500/10 pointer-events-none"
+                style={{
+                  left: `${Math.max(0, -view.panX / view.zoom / naturalSize.width) * 100}%`,
+                  top: `${Math.max(0, -view.panY / view.zoom / naturalSize.height) * 100}%`,
+                  width: `${Math.min(1, containerSize.width / view.zoom / naturalSize.width) * 100}%`,
+                  height: `${Math.min(1, containerSize.height / view.zoom / naturalSize.height) * 100}%`,
+                }}
+              ></div>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
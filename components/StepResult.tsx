@@ -1,15 +1,84 @@
 
-import React, { useState } from 'react';
-import { Slide } from '../types';
+import React, { useRef, useState } from 'react';
+import { OCRResult, OCRTable, Slide } from '../types';
+import { splitOCRResult, mergeOCRResults, createOCRResult, tableToOCRResults } from '../services/ocrEditService';
+import { withoutTranslation } from '../services/translationService';
+import { SlideSize } from '../services/pptxService';
+import TextBoxEditor from './TextBoxEditor';
+import VersionTimeline from './VersionTimeline';
 
 interface StepResultProps {
   slide: Slide;
+  slideSize: SlideSize; // Export size, for the layout preview
   onRevertToOriginal: () => void;
   onRefine: () => void;
+  onOcrChange: (ocrData: OCRResult[]) => void;
+  onTablesChange: (tables: OCRTable[]) => void;
+  onRestoreVersion: (versionId: string) => void;
+  onRenameVersion: (versionId: string, name: string) => void;
+  onDeleteVersion: (versionId: string) => void;
+  onSnapshot: (name: string) => void;
 }
 
-const StepResult: React.FC<StepResultProps> = ({ slide, onRevertToOriginal, onRefine }) => {
+const StepResult: React.FC<StepResultProps> = ({
+  slide, slideSize, onRevertToOriginal, onRefine, onOcrChange, onTablesChange,
+  onRestoreVersion, onRenameVersion, onDeleteVersion, onSnapshot
+}) => {
   const [viewMode, setViewMode] = useState<'processed' | 'original'>('processed');
+  const textareaRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
+  const [selectedIdx, setSelectedIdx] = useState<number | null>(null);
+  const [showPreview, setShowPreview] = useState(true);
+
+  // --- OCR Editing ---
+
+  const handleTextChange = (idx: number, text: string) => {
+    const updated = [...slide.ocrData];
+    // An edited original no longer matches its translation
+    updated[idx] = { ...withoutTranslation(updated[idx]), text };
+    onOcrChange(updated);
+  };
+
+  const handleTranslationChange = (idx: number, translatedText: string) => {
+    const updated = [...slide.ocrData];
+    updated[idx] = { ...updated[idx], translatedText };
+    onOcrChange(updated);
+  };
+
+  const handleDelete = (idx: number) => {
+    setSelectedIdx(null);
+    onOcrChange(slide.ocrData.filter((_, i) => i !== idx));
+  };
+
+  const handleDeleteTable = (tIdx: number) => {
+    // Lines inside the table were not kept as text boxes; bring its text back as such
+    onOcrChange([...slide.ocrData, ...tableToOCRResults(slide.ocrTables[tIdx])]);
+    onTablesChange(slide.ocrTables.filter((_, i) => i !== tIdx));
+  };
+
+  const handleSplit = (idx: number) => {
+    const cursor = textareaRefs.current[idx]?.selectionStart ?? -1;
+    const parts = splitOCRResult(slide.ocrData[idx], cursor);
+    if (!parts) {
+      alert("請先將游標放在要拆分的位置");
+      return;
+    }
+    const updated = [...slide.ocrData];
+    updated.splice(idx, 1, ...parts);
+    onOcrChange(updated);
+  };
+
+  const handleMergeNext = (idx: number) => {
+    if (idx >= slide.ocrData.length - 1) return;
+    const updated = [...slide.ocrData];
+    updated.splice(idx, 2, mergeOCRResults(slide.ocrData[idx], slide.ocrData[idx + 1]));
+    setSelectedIdx(idx);
+    onOcrChange(updated);
+  };
+
+  const handleAdd = () => {
+    setSelectedIdx(slide.ocrData.length);
+    onOcrChange([...slide.ocrData, createOCRResult()]);
+  };
 
   // If we don't have a processed image yet (shouldn't happen in Result view ideally, but for safety), show original
   const displayImage = viewMode === 'processed' && slide.processedImageSrc ? slide.processedImageSrc : slide.originalImageSrc;
@@ -68,31 +137,137 @@ const StepResult: React.FC<StepResultProps> = ({ slide, onRevertToOriginal, onRe
            </div>
            
            <div className="flex-1 overflow-auto flex items-center justify-center border rounded-xl bg-white/50 p-2">
-               <img src={displayImage} alt="Slide Content" className="max-w-full max-h-full object-contain shadow-lg" />
+               {viewMode === 'processed' ? (
+                   <TextBoxEditor 
+                       imageSrc={displayImage}
+                       ocrData={slide.ocrData}
+                       slideSize={slideSize}
+                       selectedIndex={selectedIdx}
+                       showPreview={showPreview}
+                       onSelect={setSelectedIdx}
+                       onChange={onOcrChange}
+                   />
+               ) : (
+                   <img src={displayImage} alt="Slide Content" className="max-w-full max-h-full object-contain shadow-lg" />
+               )}
            </div>
+
+           {viewMode === 'processed' && (
+               <label className="absolute bottom-6 right-6 flex items-center space-x-2 bg-white/90 px-3 py-1 rounded-full shadow text-xs text-gray-600 cursor-pointer z-10">
+                   <input 
+                       type="checkbox" 
+                       checked={showPreview} 
+                       onChange={(e) => setShowPreview(e.target.checked)}
+                       className="accent-blue-600"
+                   />
+                   <span>預覽 PPTX 文字</span>
+               </label>
+           )}
         </div>
 
         {/* Right Side: OCR Data */}
         <div className="w-80 border-l bg-white flex flex-col overflow-hidden shrink-0">
-          <div className="p-3 bg-gray-50 border-b">
+          <div className="p-3 bg-gray-50 border-b flex justify-between items-center">
             <h3 className="font-bold text-gray-700 text-sm">辨識文字 ({slide.ocrData.length})</h3>
+            <button 
+              onClick={handleAdd}
+              className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+              title="新增文字方塊"
+            >
+              + 新增
+            </button>
           </div>
           <div className="flex-1 overflow-y-auto p-3 space-y-2">
              {slide.ocrData.length === 0 ? (
                <div className="text-center text-gray-400 mt-10 text-sm">無文字</div>
              ) : (
                slide.ocrData.map((item, idx) => (
-                 <div key={idx} className="p-2 border rounded hover:border-blue-400 bg-white group">
-                   <div className="text-[10px] text-blue-500 font-mono mb-1 hidden group-hover:block">
-                     BOX: {item.box.ymin}-{item.box.xmin}
+                 <div 
+                   key={idx} 
+                   onClick={() => setSelectedIdx(idx)}
+                   className={`p-2 border rounded hover:border-blue-400 bg-white group ${idx === selectedIdx ? 'border-blue-500 ring-1 ring-blue-200' : ''}`}
+                 >
+                   <div className="flex justify-between items-center mb-1">
+                     <span className={`text-[10px] text-blue-500 font-mono ${idx === selectedIdx ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                       BOX: {item.box.xmin.toFixed(1)},{item.box.ymin.toFixed(1)} → {item.box.xmax.toFixed(1)},{item.box.ymax.toFixed(1)}
+                     </span>
+                     <div className="flex space-x-2 text-[10px] opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+                       <button onClick={() => handleSplit(idx)} className="text-gray-500 hover:text-blue-600" title="在游標位置拆分">拆分</button>
+                       <button 
+                         onClick={() => handleMergeNext(idx)} 
+                         disabled={idx === slide.ocrData.length - 1}
+                         className="text-gray-500 hover:text-blue-600 disabled:text-gray-300" 
+                         title="與下一筆合併"
+                       >合併</button>
+                       <button onClick={() => handleDelete(idx)} className="text-gray-500 hover:text-red-600" title="刪除">刪除</button>
+                     </div>
                    </div>
-                   <p className="text-gray-800 text-xs whitespace-pre-wrap">{item.text}</p>
+                   <textarea
+                     ref={(el) => { textareaRefs.current[idx] = el; }}
+                     value={item.text}
+                     onChange={(e) => handleTextChange(idx, e.target.value)}
+                     rows={Math.min(6, Math.max(1, item.text.split('\n').length))}
+                     className="w-full text-gray-800 text-xs border-0 p-0 resize-y focus:ring-0 focus:outline-none bg-transparent"
+                     placeholder="(空白)"
+                   />
+                   {item.translatedText !== undefined && (
+                     <div className="mt-1 pt-1 border-t border-dashed flex items-start space-x-1">
+                       <span className="text-[10px] text-indigo-500 shrink-0 mt-0.5">譯文</span>
+                       <textarea
+                         value={item.translatedText}
+                         onChange={(e) => handleTranslationChange(idx, e.target.value)}
+                         rows={Math.min(6, Math.max(1, item.translatedText.split('\n').length))}
+                         className="w-full text-indigo-700 text-xs border-0 p-0 resize-y focus:ring-0 focus:outline-none bg-transparent"
+                       />
+                     </div>
+                   )}
                  </div>
                ))
              )}
+
+             {slide.ocrTables.length > 0 && (
+               <div className="pt-3 mt-3 border-t space-y-2">
+                 <h4 className="font-bold text-gray-700 text-xs">表格 ({slide.ocrTables.length})</h4>
+                 {slide.ocrTables.map((table, tIdx) => (
+                   <div key={tIdx} className="p-2 border rounded bg-white group">
+                     <div className="flex justify-between items-center mb-1">
+                       <span className="text-[10px] text-gray-500">{table.rows} 列 × {table.cols} 欄</span>
+                       <button 
+                         onClick={() => handleDeleteTable(tIdx)}
+                         className="text-[10px] text-gray-500 hover:text-red-600 opacity-0 group-hover:opacity-100"
+                         title="移除表格，儲存格文字改為一般文字方塊"
+                       >刪除</button>
+                     </div>
+                     <table className="w-full text-[10px] text-gray-700 border-collapse">
+                       <tbody>
+                         {Array.from({ length: Math.min(table.rows, 8) }, (_, r) => (
+                           <tr key={r}>
+                             {table.cells.filter(c => c.row === r).sort((a, b) => a.col - b.col).map((cell, cIdx) => (
+                               <td key={cIdx} colSpan={cell.colSpan} rowSpan={cell.rowSpan} className="border border-gray-200 px-1 truncate max-w-[4rem]">
+                                 {cell.text}
+                               </td>
+                             ))}
+                           </tr>
+                         ))}
+                       </tbody>
+                     </table>
+                     {table.rows > 8 && <div className="text-[10px] text-gray-400 mt-1">...</div>}
+                   </div>
+                 ))}
+               </div>
+             )}
           </div>
         </div>
       </div>
+
+      <VersionTimeline
+        versions={slide.versions}
+        currentVersionId={slide.currentVersionId}
+        onRestore={onRestoreVersion}
+        onRename={onRenameVersion}
+        onDelete={onDeleteVersion}
+        onSnapshot={onSnapshot}
+      />
     </div>
   );
 };
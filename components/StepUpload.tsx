@@ -1,14 +1,23 @@
 
-import React, { useCallback, useState } from 'react';
-import { convertPdfToImages } from '../services/pdfService';
+import React, { useCallback, useRef, useState } from 'react';
+import { SlideSource } from '../types';
+import { convertPdfToSlides, openPdf, PdfImportOptions } from '../services/pdfService';
+import PdfImportDialog from './PdfImportDialog';
+import { convertPptxToSlides, isPptxFile, PPTX_MIME_TYPE } from '../services/pptxImportService';
 
 interface StepUploadProps {
-  onImagesUpload: (images: string[]) => void;
+  onImagesUpload: (sources: SlideSource[]) => void;
   isLoading: boolean;
 }
 
 const StepUpload: React.FC<StepUploadProps> = ({ onImagesUpload, isLoading }) => {
   const [loadingText, setLoadingText] = useState("");
+  // PDFs wait for the import dialog one at a time; other files are collected meanwhile
+  // `id` keys the dialog, so queued PDFs with the same file name still get a fresh one
+  const [activePdf, setActivePdf] = useState<{ id: number; name: string; pdf: any } | null>(null);
+  const pdfQueueRef = useRef<File[]>([]);
+  const nextPdfIdRef = useRef(0);
+  const collectedRef = useRef<SlideSource[]>([]);
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -17,31 +26,85 @@ const StepUpload: React.FC<StepUploadProps> = ({ onImagesUpload, isLoading }) =>
     }
   };
 
+  const finishUpload = () => {
+    const images = collectedRef.current;
+    collectedRef.current = [];
+    setLoadingText("");
+    if (images.length > 0) {
+      onImagesUpload(images);
+    }
+  };
+
+  /**
+   * Opens the next queued PDF in the import dialog, or finishes when none is left.
+   */
+  const openNextPdf = async () => {
+    const file = pdfQueueRef.current.shift();
+    if (!file) {
+      finishUpload();
+      return;
+    }
+    setLoadingText(`正在開啟 PDF: ${file.name}...`);
+    try {
+      const pdf = await openPdf(file);
+      setActivePdf({ id: nextPdfIdRef.current++, name: file.name, pdf });
+      setLoadingText("");
+    } catch (e) {
+      console.error(e);
+      alert(`無法讀取 PDF: ${file.name}`);
+      await openNextPdf();
+    }
+  };
+
+  const handlePdfImport = async (options: PdfImportOptions) => {
+    if (!activePdf) return;
+    const { name, pdf } = activePdf;
+    setActivePdf(null);
+    setLoadingText(`正在轉換 PDF 頁面: ${name}...`);
+    try {
+      const pdfPages = await convertPdfToSlides(pdf, options,
+        (done, total) => setLoadingText(`正在轉換 PDF 頁面: ${name} (${done}/${total})`));
+      collectedRef.current.push(...pdfPages);
+    } catch (e) {
+      console.error(e);
+      alert(`無法轉換 PDF: ${name}`);
+    } finally {
+      pdf.destroy();
+    }
+    await openNextPdf();
+  };
+
+  const handlePdfSkip = async () => {
+    activePdf?.pdf.destroy();
+    setActivePdf(null);
+    await openNextPdf();
+  };
+
   const processFiles = async (files: File[]) => {
     setLoadingText("正在讀取檔案...");
-    const images: string[] = [];
+    const images = collectedRef.current;
 
     for (const file of files) {
       if (file.type === 'application/pdf') {
-        setLoadingText(`正在轉換 PDF 頁面: ${file.name}...`);
+        pdfQueueRef.current.push(file);
+      } else if (isPptxFile(file)) {
+        setLoadingText(`正在匯入 PPTX 投影片: ${file.name}...`);
         try {
-            const pdfImages = await convertPdfToImages(file);
-            images.push(...pdfImages);
+            const pptxSlides = await convertPptxToSlides(file);
+            if (pptxSlides.length === 0) alert(`PPTX 中找不到可用的圖片: ${file.name}`);
+            images.push(...pptxSlides);
         } catch (e) {
             console.error(e);
-            alert(`無法讀取 PDF: ${file.name}`);
+            alert(`無法讀取 PPTX: ${file.name}`);
         }
       } else if (file.type.startsWith('image/')) {
         // Handle Image
         const base64 = await readFileAsBase64(file);
-        if (base64) images.push(base64);
+        if (base64) images.push({ imageSrc: base64, textLayer: null });
       }
     }
 
-    if (images.length > 0) {
-      onImagesUpload(images);
-    }
-    setLoadingText("");
+    await openNextPdf();
   };
 
   const readFileAsBase64 = (file: File): Promise<string> => {
@@ -68,11 +131,22 @@ const StepUpload: React.FC<StepUploadProps> = ({ onImagesUpload, isLoading }) =>
     e.stopPropagation();
   };
 
+  const pdfDialog = activePdf && (
+    <PdfImportDialog
+      key={activePdf.id}
+      fileName={activePdf.name}
+      pdf={activePdf.pdf}
+      onImport={handlePdfImport}
+      onSkip={handlePdfSkip}
+    />
+  );
+
   if (isLoading || loadingText) {
       return (
         <div className="flex flex-col items-center justify-center h-full min-h-[400px] border-2 border-dashed border-gray-300 rounded-xl bg-gray-50">
            <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
            <p className="text-gray-600 font-medium">{loadingText || "處理中..."}</p>
+           {pdfDialog}
         </div>
       );
   }
@@ -90,12 +164,12 @@ const StepUpload: React.FC<StepUploadProps> = ({ onImagesUpload, isLoading }) =>
           </svg>
         </div>
         <h3 className="text-xl font-semibold text-gray-800 mb-2">上傳檔案</h3>
-        <p className="text-gray-500 mb-6">支援多張圖片 (JPG, PNG) 或 PDF 簡報</p>
+        <p className="text-gray-500 mb-6">支援多張圖片 (JPG, PNG)、PDF 或 PPTX 簡報</p>
         
         <label className="relative">
           <input 
             type="file" 
-            accept="image/*,application/pdf" 
+            accept={`image/*,application/pdf,.pptx,${PPTX_MIME_TYPE}`}
             multiple
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             onChange={handleFileChange}
@@ -105,6 +179,7 @@ const StepUpload: React.FC<StepUploadProps> = ({ onImagesUpload, isLoading }) =>
           </span>
         </label>
       </div>
+      {pdfDialog}
     </div>
   );
 };
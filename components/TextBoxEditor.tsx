@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OCRResult } from '../types';
+import { computeImagePlacement, computeBlockLayout, SlideSize } from '../services/pptxService';
+import { analyzeLayout, withListMarker } from '../services/layoutService';
+
+interface TextBoxEditorProps {
+  imageSrc: string;
+  ocrData: OCRResult[];
+  slideSize: SlideSize;
+  selectedIndex: number | null;
+  showPreview: boolean;
+  onSelect: (idx: number | null) => void;
+  onChange: (ocrData: OCRResult[]) => void;
+}
+
+type Box = OCRResult['box'];
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  idx: number;
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startBox: Box;
+}
+
+interface Guides {
+  x: number[];
+  y: number[];
+}
+
+const SNAP_THRESHOLD = 0.8; // percent of image size
+const MIN_BOX_SIZE = 0.5;   // percent of image size
+
+/**
+ * Snaps the moving edges of a box to the edges/centers of the other boxes.
+ * Returns the adjusted box and the guide lines that were snapped to.
+ */
+const snapBox = (box: Box, others: Box[], mode: DragMode): { box: Box; guides: Guides } => {
+  const guides: Guides = { x: [], y: [] };
+  const targetsX = others.flatMap(o => [o.xmin, o.xmax, (o.xmin + o.xmax) / 2]);
+  const targetsY = others.flatMap(o => [o.ymin, o.ymax, (o.ymin + o.ymax) / 2]);
+
+  const nearest = (value: number, targets: number[]) => {
+    let best: number | null = null;
+    for (const t of targets) {
+      if (Math.abs(t - value) <= SNAP_THRESHOLD && (best === null || Math.abs(t - value) < Math.abs(best - value))) {
+        best = t;
+      }
+    }
+    return best;
+  };
+
+  const result = { ...box };
+
+  if (mode === 'move') {
+    // Try left, right and center; use the closest match on each axis
+    const w = box.xmax - box.xmin;
+    const h = box.ymax - box.ymin;
+    const optionsX = [
+      { edge: box.xmin, offset: 0 },
+      { edge: box.xmax, offset: w },
+      { edge: (box.xmin + box.xmax) / 2, offset: w / 2 },
+    ];
+    const optionsY = [
+      { edge: box.ymin, offset: 0 },
+      { edge: box.ymax, offset: h },
+      { edge: (box.ymin + box.ymax) / 2, offset: h / 2 },
+    ];
+
+    let bestX: { target: number; offset: number; dist: number } | null = null;
+    for (const o of optionsX) {
+      const t = nearest(o.edge, targetsX);
+      if (t !== null && (!bestX || Math.abs(t - o.edge) < bestX.dist)) bestX = { target: t, offset: o.offset, dist: Math.abs(t - o.edge) };
+    }
+    let bestY: { target: number; offset: number; dist: number } | null = null;
+    for (const o of optionsY) {
+      const t = nearest(o.edge, targetsY);
+      if (t !== null && (!bestY || Math.abs(t - o.edge) < bestY.dist)) bestY = { target: t, offset: o.offset, dist: Math.abs(t - o.edge) };
+    }
+
+    if (bestX) {
+      result.xmin = bestX.target - bestX.offset;
+      result.xmax = result.xmin + w;
+      guides.x.push(bestX.target);
+    }
+    if (bestY) {
+      result.ymin = bestY.target - bestY.offset;
+      result.ymax = result.ymin + h;
+      guides.y.push(bestY.target);
+    }
+    return { box: result, guides };
+  }
+
+  // Resizing: only the dragged edges snap
+  const xKey: 'xmin' | 'xmax' = mode === 'nw' || mode === 'sw' ? 'xmin' : 'xmax';
+  const yKey: 'ymin' | 'ymax' = mode === 'nw' || mode === 'ne' ? 'ymin' : 'ymax';
+  const snapX = nearest(result[xKey], targetsX);
+  const snapY = nearest(result[yKey], targetsY);
+  if (snapX !== null) { result[xKey] = snapX; guides.x.push(snapX); }
+  if (snapY !== null) { result[yKey] = snapY; guides.y.push(snapY); }
+  return { box: result, guides };
+};
+
+const clampBox = (box: Box): Box => {
+  const w = box.xmax - box.xmin;
+  const h = box.ymax - box.ymin;
+  const xmin = Math.max(0, Math.min(100 - w, box.xmin));
+  const ymin = Math.max(0, Math.min(100 - h, box.ymin));
+  return { xmin, ymin, xmax: xmin + w, ymax: ymin + h };
+};
+
+const round = (v: number) => Math.round(v * 100) / 100;
+
+const TextBoxEditor: React.FC<TextBoxEditorProps> = ({ imageSrc, ocrData, slideSize, selectedIndex, showPreview, onSelect, onChange }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [displayWidth, setDisplayWidth] = useState(0);
+  const [guides, setGuides] = useState<Guides>({ x: [], y: [] });
+  const [isDragging, setIsDragging] = useState(false);
+
+  // Latest values for the window-level drag listeners
+  const ocrDataRef = useRef(ocrData);
+  ocrDataRef.current = ocrData;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!imageRef.current) return;
+    const observer = new ResizeObserver(() => {
+      if (imageRef.current) setDisplayWidth(imageRef.current.getBoundingClientRect().width);
+    });
+    observer.observe(imageRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag || !imageRef.current) return;
+      const rect = imageRef.current.getBoundingClientRect();
+      const dx = ((e.clientX - drag.startX) / rect.width) * 100;
+      const dy = ((e.clientY - drag.startY) / rect.height) * 100;
+      const b = drag.startBox;
+
+      let next: Box;
+      if (drag.mode === 'move') {
+        next = clampBox({ xmin: b.xmin + dx, xmax: b.xmax + dx, ymin: b.ymin + dy, ymax: b.ymax + dy });
+      } else {
+        next = { ...b };
+        if (drag.mode === 'nw' || drag.mode === 'sw') next.xmin = Math.min(b.xmax - MIN_BOX_SIZE, Math.max(0, b.xmin + dx));
+        else next.xmax = Math.max(b.xmin + MIN_BOX_SIZE, Math.min(100, b.xmax + dx));
+        if (drag.mode === 'nw' || drag.mode === 'ne') next.ymin = Math.min(b.ymax - MIN_BOX_SIZE, Math.max(0, b.ymin + dy));
+        else next.ymax = Math.max(b.ymin + MIN_BOX_SIZE, Math.min(100, b.ymax + dy));
+      }
+
+      const data = ocrDataRef.current;
+      const others = data.filter((_, i) => i !== drag.idx).map(o => o.box);
+      // Hold Alt to move freely without snapping
+      const snapped = e.altKey ? { box: next, guides: { x: [], y: [] } } : snapBox(next, others, drag.mode);
+      setGuides(snapped.guides);
+
+      const box = {
+        ymin: round(snapped.box.ymin),
+        xmin: round(snapped.box.xmin),
+        ymax: round(snapped.box.ymax),
+        xmax: round(snapped.box.xmax),
+      };
+      const updated = [...data];
+      updated[drag.idx] = { ...updated[drag.idx], box };
+      onChangeRef.current(updated);
+    };
+
+    const handleUp = () => {
+      dragRef.current = null;
+      setIsDragging(false);
+      setGuides({ x: [], y: [] });
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [isDragging]);
+
+  const startDrag = (e: React.MouseEvent, idx: number, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    onSelect(idx);
+    dragRef.current = { idx, mode, startX: e.clientX, startY: e.clientY, startBox: { ...ocrData[idx].box } };
+    setIsDragging(true);
+  };
+
+  const handleImageLoad = () => {
+    if (!imageRef.current) return;
+    setNaturalSize({ width: imageRef.current.naturalWidth, height: imageRef.current.naturalHeight });
+    setDisplayWidth(imageRef.current.getBoundingClientRect().width);
+  };
+
+  // Preview of the exported text boxes, using the same layout math as pptxService
+  const placement = naturalSize ? computeImagePlacement(naturalSize.width, naturalSize.height, slideSize) : null;
+  const pxPerInch = placement && displayWidth ? displayWidth / placement.w : 0;
+
+  return (
+    <div className="relative inline-block shadow-lg select-none" onMouseDown={() => onSelect(null)}>
+      <img
+        ref={imageRef}
+        src={imageSrc}
+        alt="Slide Content"
+        onLoad={handleImageLoad}
+        className="block max-w-full max-h-[calc(100vh-220px)] object-contain"
+        draggable={false}
+      />
+
+      <div className="absolute inset-0 overflow-hidden">
+        {showPreview && placement && pxPerInch > 0 && analyzeLayout(ocrData).map((block, idx) => {
+          const layout = computeBlockLayout(block, placement);
+          const isStyled = block.lines.some(l => l.style);
+          return (
+            <div
+              key={`preview-${idx}`}
+              className="absolute pointer-events-none whitespace-pre-wrap break-words leading-tight"
+              style={{
+                left: `${((layout.x - placement.x) / placement.w) * 100}%`,
+                top: `${((layout.y - placement.y) / placement.h) * 100}%`,
+                width: `${(layout.w / placement.w) * 100}%`,
+                height: `${(layout.h / placement.h) * 100}%`,
+                fontSize: `${(layout.fontSize / 72) * pxPerInch}px`,
+                textAlign: block.align,
+                backgroundColor: isStyled ? undefined : 'rgba(255, 255, 255, 0.3)',
+              }}
+            >
+              {block.paragraphs.map((p, pIdx) => {
+                const bullet = p.listType === 'bullet' ? '• ' : '';
+                return (
+                  <div
+                    key={pIdx}
+                    style={{
+                      color: `#${p.style?.color || '333333'}`,
+                      fontWeight: p.style?.bold ? 'bold' : 'normal',
+                      fontStyle: p.style?.italic ? 'italic' : 'normal',
+                      paddingLeft: `${p.indentLevel * 1.5}em`,
+                    }}
+                  >
+                    {bullet}{withListMarker(p)}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+
+        {ocrData.map((item, idx) => {
+          const isSelected = idx === selectedIndex;
+          return (
+            <div
+              key={idx}
+              onMouseDown={(e) => startDrag(e, idx, 'move')}
+              className={`absolute border cursor-move ${isSelected ? 'border-blue-600 bg-blue-500/10 z-10' : 'border-blue-400/70 hover:border-blue-500'}`}
+              style={{
+                left: `${item.box.xmin}%`,
+                top: `${item.box.ymin}%`,
+                width: `${item.box.xmax - item.box.xmin}%`,
+                height: `${item.box.ymax - item.box.ymin}%`,
+              }}
+              title={item.text}
+            >
+              {isSelected && (['nw', 'ne', 'sw', 'se'] as DragMode[]).map(handle => (
+                <div
+                  key={handle}
+                  onMouseDown={(e) => startDrag(e, idx, handle)}
+                  className="absolute w-2.5 h-2.5 bg-white border border-blue-600"
+                  style={{
+                    left: handle === 'nw' || handle === 'sw' ? -5 : undefined,
+                    right: handle === 'ne' || handle === 'se' ? -5 : undefined,
+                    top: handle === 'nw' || handle === 'ne' ? -5 : undefined,
+                    bottom: handle === 'sw' || handle === 'se' ? -5 : undefined,
+                    cursor: handle === 'nw' || handle === 'se' ? 'nwse-resize' : 'nesw-resize',
+                  }}
+                />
+              ))}
+            </div>
+          );
+        })}
+
+        {/* Snap guides */}
+        {guides.x.map((x, i) => (
+          <div key={`gx-${i}`} className="absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none z-20" style={{ left: `${x}%` }} />
+        ))}
+        {guides.y.map((y, i) => (
+          <div key={`gy-${i}`} className="absolute left-0 right-0 h-px bg-pink-500 pointer-events-none z-20" style={{ top: `${y}%` }} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TextBoxEditor;
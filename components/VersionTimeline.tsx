@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { SlideVersion } from '../types';
+import { INPAINT_MODE_LABELS } from '../services/versionService';
+
+interface VersionTimelineProps {
+  versions: SlideVersion[];
+  currentVersionId: string | null;
+  onRestore: (versionId: string) => void;
+  onRename: (versionId: string, name: string) => void;
+  onDelete: (versionId: string) => void;
+  onSnapshot: (name: string) => void;
+}
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '' : date.toLocaleString('zh-TW', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Timeline of a slide's processed versions with restore, rename, delete
+ * and a side-by-side slider comparison of any two versions.
+ */
+const VersionTimeline: React.FC<VersionTimelineProps> = ({ versions, currentVersionId, onRestore, onRename, onDelete, onSnapshot }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [split, setSplit] = useState(50);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      // Keep the most recent two selections
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleRename = (version: SlideVersion) => {
+    const name = prompt("版本名稱", version.name);
+    if (name && name.trim()) onRename(version.id, name.trim());
+  };
+
+  const handleDelete = (version: SlideVersion) => {
+    if (!confirm(`確定刪除「${version.name}」？`)) return;
+    setCompareIds(prev => prev.filter(x => x !== version.id));
+    onDelete(version.id);
+  };
+
+  const handleSnapshot = () => {
+    const name = prompt("快照名稱", `快照 ${versions.length + 1}`);
+    if (name && name.trim()) onSnapshot(name.trim());
+  };
+
+  const [left, right] = compareIds.map(id => versions.find(v => v.id === id)).filter((v): v is SlideVersion => !!v);
+
+  return (
+    <div className="border-t bg-white shrink-0">
+      <div className="flex items-center justify-between px-4 py-2">
+        <button onClick={() => setIsOpen(!isOpen)} className="text-sm font-bold text-gray-700 flex items-center">
+          <span className="mr-1 text-gray-400">{isOpen ? '▾' : '▸'}</span>
+          版本紀錄 ({versions.length})
+        </button>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setIsComparing(true)}
+            disabled={!left || !right}
+            className="px-3 py-1 text-xs border rounded text-gray-700 hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-white"
+            title="勾選兩個版本後比較"
+          >
+            比較 ({compareIds.length}/2)
+          </button>
+          <button onClick={handleSnapshot} className="px-3 py-1 text-xs border border-blue-200 text-blue-700 bg-blue-50 rounded hover:bg-blue-100" title="將目前的結果與文字編輯存成一個版本">
+            儲存快照
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        versions.length === 0 ? (
+          <div className="px-4 pb-3 text-xs text-gray-400">尚無版本紀錄</div>
+        ) : (
+          <div className="flex space-x-3 overflow-x-auto px-4 pb-3">
+            {versions.map(version => {
+              const isCurrent = version.id === currentVersionId;
+              return (
+                <div
+                  key={version.id}
+                  className={`w-36 shrink-0 border rounded-lg p-1.5 group ${isCurrent ? 'border-blue-500 ring-1 ring-blue-200' : 'border-gray-200'}`}
+                >
+                  <div className="relative">
+                    <img src={version.processedImageSrc} alt={version.name} className="w-full h-16 object-contain bg-gray-100 rounded" />
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(version.id)}
+                      onChange={() => toggleCompare(version.id)}
+                      className="absolute top-1 left-1 accent-blue-600"
+                      title="選取以比較"
+                    />
+                    {isCurrent && <span className="absolute top-1 right-1 text-[10px] bg-blue-600 text-white px-1 rounded">目前</span>}
+                  </div>
+                  <div className="mt-1 text-xs font-medium text-gray-800 truncate" title={version.name} onDoubleClick={() => handleRename(version)}>
+                    {version.name}
+                  </div>
+                  <div className="text-[10px] text-gray-400 truncate">
+                    {formatTime(version.createdAt)}．{version.mode ? INPAINT_MODE_LABELS[version.mode] : '快照'}
+                  </div>
+                  <div className="flex justify-between mt-1 text-[10px]">
+                    <button
+                      onClick={() => onRestore(version.id)}
+                      disabled={isCurrent}
+                      className="text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                    >還原</button>
+                    <div className="space-x-2 opacity-0 group-hover:opacity-100">
+                      <button onClick={() => handleRename(version)} className="text-gray-500 hover:text-blue-600">重新命名</button>
+                      <button onClick={() => handleDelete(version)} className="text-gray-500 hover:text-red-600">刪除</button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )
+      )}
+
+      {isComparing && left && right && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={() => setIsComparing(false)}>
+          <div className="bg-white rounded-xl shadow-2xl p-4 max-w-[90vw]" onClick={e => e.stopPropagation()}>
+            <div className="flex justify-between items-center mb-3 text-sm">
+              <span className="font-bold text-gray-800">◀ {left.name}</span>
+              <button onClick={() => setIsComparing(false)} className="text-gray-400 hover:text-gray-700 px-2">✕</button>
+              <span className="font-bold text-gray-800">{right.name} ▶</span>
+            </div>
+            <div className="relative select-none">
+              <img src={right.processedImageSrc} alt={right.name} className="block max-w-[85vw] max-h-[70vh] object-contain" />
+              <img
+                src={left.processedImageSrc}
+                alt={left.name}
+                className="absolute inset-0 w-full h-full object-contain"
+                style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+              />
+              <div className="absolute top-0 bottom-0 w-0.5 bg-pink-500 pointer-events-none" style={{ left: `${split}%` }}></div>
+            </div>
+            <input
+              type="range" min="0" max="100" value={split}
+              onChange={(e) => setSplit(parseInt(e.target.value))}
+              className="w-full mt-3 accent-pink-500"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionTimeline;
@@ -0,0 +1,237 @@
+import { OCRPageResult, OCRProviderSettings, OCRResult, OCRTable, Slide, TranslationSettings } from "../types";
+import { detectTextRegions, extractTextLayerOCR, performOCR } from "./ocrService";
+import { performInpainting, isAbortError, InpaintMode } from "./openaiService";
+import { createModelTranslator, translatePage } from "./translationService";
+import { buildMaskFromRegions, transformMask, mergeMasks, MaskPlacement } from "./maskService";
+
+/**
+ * Batch processing: a small job queue with configurable concurrency,
+ * pause/resume and cancel, plus the automatic per-slide pipeline
+ * (detect text -> build mask -> OCR -> translate -> inpaint) and applying one mask to many slides.
+ */
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("已取消");
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Passed to each job so it can cooperate with pause/cancel between stages.
+ */
+export interface JobContext {
+  signal: AbortSignal;
+  /** Resolves immediately when running, or once the queue is resumed. Throws if cancelled. */
+  checkpoint: () => Promise<void>;
+}
+
+export interface JobQueueController {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  /** Resolves once every job has settled (or the queue was cancelled). */
+  done: Promise<void>;
+}
+
+/**
+ * Runs `worker` for each item with at most `concurrency` jobs in flight.
+ * Job errors are the worker's responsibility; a rejected job does not stop the queue.
+ */
+export const runJobQueue = <T>(
+  items: T[],
+  worker: (item: T, ctx: JobContext) => Promise<void>,
+  concurrency: number = 1
+): JobQueueController => {
+  const abortController = new AbortController();
+  const signal = abortController.signal;
+  let paused = false;
+  let resumeWaiters: (() => void)[] = [];
+  let nextIndex = 0;
+
+  const wakeUp = () => {
+    const waiters = resumeWaiters;
+    resumeWaiters = [];
+    waiters.forEach(w => w());
+  };
+
+  const checkpoint = async () => {
+    if (signal.aborted) throw new JobCancelledError();
+    while (paused) {
+      await new Promise<void>(resolve => resumeWaiters.push(resolve));
+      if (signal.aborted) throw new JobCancelledError();
+    }
+  };
+
+  const runLane = async () => {
+    while (nextIndex < items.length) {
+      try {
+        await checkpoint();
+      } catch {
+        return; // Cancelled
+      }
+      const item = items[nextIndex++];
+      try {
+        await worker(item, { signal, checkpoint });
+      } catch (e) {
+        console.error("Batch job failed:", e);
+      }
+    }
+  };
+
+  const laneCount = Math.max(1, Math.min(concurrency, items.length));
+  const done = Promise.all(Array.from({ length: laneCount }, runLane)).then(() => undefined);
+
+  return {
+    pause: () => { paused = true; },
+    resume: () => { paused = false; wakeUp(); },
+    cancel: () => { abortController.abort(); paused = false; wakeUp(); },
+    isPaused: () => paused,
+    done,
+  };
+};
+
+/**
+ * performInpainting tied to the job's cancel signal.
+ */
+const inpaintCancellable = async (
+  imageSrc: string,
+  maskSrc: string,
+  mode: InpaintMode,
+  ctx: JobContext,
+  onProgress?: (fraction: number) => void
+): Promise<string> => {
+  try {
+    return await performInpainting(imageSrc, maskSrc, mode, { signal: ctx.signal, onProgress });
+  } catch (e) {
+    if (isAbortError(e)) throw new JobCancelledError();
+    throw e;
+  }
+};
+
+export type AutoProcessStage = 'detecting' | 'ocr' | 'translating' | 'inpainting';
+
+export interface AutoProcessResult {
+  processedImageSrc: string;
+  ocrData: OCRResult[];
+  ocrTables: OCRTable[];
+  maskSrc: string | null; // Null when nothing was erased
+}
+
+/**
+ * Builds a mask covering every text region of the slide's original image.
+ * Born-digital PDF pages carry their text; no model call is needed for them.
+ */
+const detectTextMask = async (ocrSettings: OCRProviderSettings, slide: Slide): Promise<string | null> => {
+  const source = slide.originalImageSrc;
+  const regions = slide.textLayer ? slide.textLayer.map(line => line.box) : await detectTextRegions(ocrSettings, source);
+  return regions.length > 0 ? await buildMaskFromRegions(source, regions) : null;
+};
+
+/**
+ * Recognises the text inside the mask, translating it if enabled.
+ * A failed translation is not fatal: the slide keeps its original text and can be translated later.
+ */
+const recognizeSlide = async (
+  ocrSettings: OCRProviderSettings,
+  slide: Slide,
+  maskSrc: string,
+  translation: TranslationSettings | null,
+  ctx: JobContext,
+  onStage: (stage: AutoProcessStage) => void
+): Promise<OCRPageResult> => {
+  await ctx.checkpoint();
+  onStage('ocr');
+  let ocr = slide.textLayer
+    ? await extractTextLayerOCR(slide.textLayer, maskSrc)
+    : await performOCR(ocrSettings, slide.originalImageSrc, maskSrc);
+
+  if (translation) {
+    await ctx.checkpoint();
+    onStage('translating');
+    try {
+      ocr = await translatePage(createModelTranslator(ocrSettings), ocr, translation.targetLanguage);
+    } catch (error) {
+      console.warn("Translation failed, keeping the original text:", error);
+    }
+  }
+  return ocr;
+};
+
+/**
+ * Fully automatic processing of one slide:
+ * detect text regions, build a mask from them, run OCR (and translate it if enabled), then inpaint.
+ * A slide without text (photos, title art) is finished unchanged rather than failed.
+ */
+export const autoProcessSlide = async (
+  ocrSettings: OCRProviderSettings,
+  slide: Slide,
+  mode: InpaintMode,
+  translation: TranslationSettings | null,
+  ctx: JobContext,
+  onStage: (stage: AutoProcessStage) => void,
+  onProgress?: (fraction: number) => void
+): Promise<AutoProcessResult> => {
+  await ctx.checkpoint();
+  onStage('detecting');
+  const maskSrc = await detectTextMask(ocrSettings, slide);
+  if (!maskSrc) {
+    await ctx.checkpoint();
+    return { processedImageSrc: slide.originalImageSrc, ocrData: [], ocrTables: [], maskSrc: null };
+  }
+
+  const ocr = await recognizeSlide(ocrSettings, slide, maskSrc, translation, ctx, onStage);
+
+  await ctx.checkpoint();
+  onStage('inpainting');
+  const processedImageSrc = await inpaintCancellable(slide.originalImageSrc, maskSrc, mode, ctx, onProgress);
+
+  await ctx.checkpoint();
+  return { processedImageSrc, ocrData: ocr.lines, ocrTables: ocr.tables, maskSrc };
+};
+
+/**
+ * Erases the area of a mask taken from another slide.
+ * Already processed slides are fixed on top of their current result, like a refine pass, and keep their text.
+ * Slides that were never processed have no recognised text yet, so they go through the automatic
+ * pipeline with the applied mask added to the detected text regions.
+ */
+export const applyMaskToSlide = async (
+  ocrSettings: OCRProviderSettings,
+  slide: Slide,
+  sourceMaskSrc: string,
+  placement: MaskPlacement,
+  mode: InpaintMode,
+  translation: TranslationSettings | null,
+  ctx: JobContext,
+  onStage: (stage: AutoProcessStage) => void,
+  onProgress?: (fraction: number) => void
+): Promise<AutoProcessResult> => {
+  const base = slide.processedImageSrc || slide.originalImageSrc;
+
+  await ctx.checkpoint();
+  const mask = await transformMask(sourceMaskSrc, base, placement);
+
+  if (slide.processedImageSrc) {
+    onStage('inpainting');
+    const processedImageSrc = await inpaintCancellable(base, mask, mode, ctx, onProgress);
+    const maskSrc = slide.maskSrc ? await mergeMasks([slide.maskSrc, mask]) : mask;
+
+    await ctx.checkpoint();
+    return { processedImageSrc, ocrData: slide.ocrData, ocrTables: slide.ocrTables, maskSrc };
+  }
+
+  onStage('detecting');
+  const textMask = await detectTextMask(ocrSettings, slide);
+  const maskSrc = textMask ? await mergeMasks([textMask, mask]) : mask;
+
+  const ocr = await recognizeSlide(ocrSettings, slide, maskSrc, translation, ctx, onStage);
+
+  await ctx.checkpoint();
+  onStage('inpainting');
+  const processedImageSrc = await inpaintCancellable(base, maskSrc, mode, ctx, onProgress);
+
+  await ctx.checkpoint();
+  return { processedImageSrc, ocrData: ocr.lines, ocrTables: ocr.tables, maskSrc };
+};
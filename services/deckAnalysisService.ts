@@ -0,0 +1,313 @@
+import { OCRProviderSettings, OCRResult, Slide } from "../types";
+import { performOCR, DetectedRegion } from "./ocrService";
+import { buildMaskFromRegions } from "./maskService";
+
+/**
+ * Deck-wide analysis that finds template furniture (logos, watermarks,
+ * footers, slide numbers) repeated at the same place on many slides.
+ *
+ * Two signals are combined:
+ * - visual: pixels that look the same on most slides and carry some detail (edges),
+ * - text: recognised text that recurs at the same position with the same content,
+ *   where only numbers may differ (e.g. page numbers or "Page 3 of 12").
+ */
+
+export type RepeatedRegionKind = 'visual' | 'text';
+
+export interface RepeatedRegion {
+  id: string;
+  box: DetectedRegion;       // 0-100 percent
+  kind: RepeatedRegionKind;
+  label: string;             // e.g. 頁尾文字
+  slideIds: string[];        // Slides the region was found on (text: slides whose sample matched)
+  coverage: number;          // 0-1 share of the compared slides
+  suggested: boolean;        // Pre-selected (visual: near the slide edges, text: on every sampled slide)
+}
+
+export interface DeckAnalysisOptions {
+  detectText: boolean; // Costs one model call per sampled slide
+}
+
+// Slides are compared on a small common grid (aspect ratio is ignored on purpose)
+const GRID_WIDTH = 192;
+const GRID_HEIGHT = 108;
+// Grey-level difference still considered "the same pixel"
+const PIXEL_TOLERANCE = 12;
+// Share of slides that must agree for a pixel/region to count as repeated
+const MIN_AGREEMENT = 0.7;
+// Minimum local contrast so flat backgrounds aren't reported
+const MIN_EDGE = 18;
+const MAX_TEXT_SAMPLES = 10;
+// Regions whose center lies in this outer band (percent) are pre-selected
+const EDGE_BAND = 20;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException("Analysis cancelled", "AbortError");
+};
+
+/**
+ * Renders a slide onto the comparison grid as grey levels.
+ */
+const toGrid = async (src: string): Promise<Float32Array> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = GRID_WIDTH;
+  canvas.height = GRID_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas error");
+  ctx.drawImage(img, 0, 0, GRID_WIDTH, GRID_HEIGHT);
+  const data = ctx.getImageData(0, 0, GRID_WIDTH, GRID_HEIGHT).data;
+
+  const grid = new Float32Array(GRID_WIDTH * GRID_HEIGHT);
+  for (let p = 0; p < grid.length; p++) {
+    grid[p] = data[p * 4] * 0.299 + data[p * 4 + 1] * 0.587 + data[p * 4 + 2] * 0.114;
+  }
+  return grid;
+};
+
+const boxIoU = (a: DetectedRegion, b: DetectedRegion) => {
+  const ix = Math.max(0, Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin));
+  const iy = Math.max(0, Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin));
+  const inter = ix * iy;
+  const area = (r: DetectedRegion) => (r.xmax - r.xmin) * (r.ymax - r.ymin);
+  const union = area(a) + area(b) - inter;
+  return union > 0 ? inter / union : 0;
+};
+
+const unionBox = (a: DetectedRegion, b: DetectedRegion): DetectedRegion => ({
+  xmin: Math.min(a.xmin, b.xmin),
+  ymin: Math.min(a.ymin, b.ymin),
+  xmax: Math.max(a.xmax, b.xmax),
+  ymax: Math.max(a.ymax, b.ymax),
+});
+
+const describeRegion = (box: DetectedRegion, kind: RepeatedRegionKind) => {
+  const cy = (box.ymin + box.ymax) / 2;
+  const place = cy >= 100 - EDGE_BAND ? '頁尾' : cy <= EDGE_BAND ? '頁首' : '頁面中';
+  return `${place}${kind === 'text' ? '文字' : '圖形'}`;
+};
+
+const isNearEdge = (box: DetectedRegion) => {
+  const cx = (box.xmin + box.xmax) / 2;
+  const cy = (box.ymin + box.ymax) / 2;
+  return cx <= EDGE_BAND || cx >= 100 - EDGE_BAND || cy <= EDGE_BAND || cy >= 100 - EDGE_BAND;
+};
+
+/**
+ * Finds detailed areas that look the same on most slides.
+ */
+const findVisualRepeats = (slides: Slide[], grids: Float32Array[]): RepeatedRegion[] => {
+  const size = GRID_WIDTH * GRID_HEIGHT;
+  const n = grids.length;
+  const median = new Float32Array(size);
+  const agreement = new Float32Array(size);
+  const values = new Float32Array(n);
+
+  for (let p = 0; p < size; p++) {
+    for (let i = 0; i < n; i++) values[i] = grids[i][p];
+    values.sort();
+    const m = values[Math.floor(n / 2)];
+    median[p] = m;
+    let agree = 0;
+    for (let i = 0; i < n; i++) if (Math.abs(values[i] - m) <= PIXEL_TOLERANCE) agree++;
+    agreement[p] = agree / n;
+  }
+
+  // Repeated and detailed cells, grown by one cell to join glyphs and logo parts
+  const candidate = new Uint8Array(size);
+  for (let y = 1; y < GRID_HEIGHT - 1; y++) {
+    for (let x = 1; x < GRID_WIDTH - 1; x++) {
+      const p = y * GRID_WIDTH + x;
+      if (agreement[p] < MIN_AGREEMENT) continue;
+      const edge = Math.max(
+        Math.abs(median[p + 1] - median[p - 1]),
+        Math.abs(median[p + GRID_WIDTH] - median[p - GRID_WIDTH])
+      );
+      if (edge >= MIN_EDGE) candidate[p] = 1;
+    }
+  }
+  const grown = new Uint8Array(size);
+  for (let y = 0; y < GRID_HEIGHT; y++) {
+    for (let x = 0; x < GRID_WIDTH; x++) {
+      if (!candidate[y * GRID_WIDTH + x]) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if (nx >= 0 && nx < GRID_WIDTH && ny >= 0 && ny < GRID_HEIGHT) grown[ny * GRID_WIDTH + nx] = 1;
+        }
+      }
+    }
+  }
+
+  // Connected components -> boxes
+  const regions: RepeatedRegion[] = [];
+  const visited = new Uint8Array(size);
+  const queue = new Int32Array(size);
+  for (let start = 0; start < size; start++) {
+    if (!grown[start] || visited[start]) continue;
+    let head = 0, tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+    let minX = GRID_WIDTH, minY = GRID_HEIGHT, maxX = 0, maxY = 0, detailCells = 0;
+    const cells: number[] = [];
+    while (head < tail) {
+      const p = queue[head++];
+      const x = p % GRID_WIDTH, y = (p - x) / GRID_WIDTH;
+      cells.push(p);
+      if (candidate[p]) detailCells++;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      const neighbors = [x > 0 ? p - 1 : -1, x < GRID_WIDTH - 1 ? p + 1 : -1, y > 0 ? p - GRID_WIDTH : -1, y < GRID_HEIGHT - 1 ? p + GRID_WIDTH : -1];
+      for (const q of neighbors) {
+        if (q >= 0 && grown[q] && !visited[q]) {
+          visited[q] = 1;
+          queue[tail++] = q;
+        }
+      }
+    }
+
+    const boxCells = (maxX - minX + 1) * (maxY - minY + 1);
+    // Skip specks and anything covering a large part of the slide (shared backgrounds)
+    if (detailCells < 4 || boxCells > size * 0.25) continue;
+
+    // A slide carries the region if its pixels match the median there
+    const slideIds = slides.filter((_, i) => {
+      let diff = 0;
+      cells.forEach(p => { diff += Math.abs(grids[i][p] - median[p]); });
+      return diff / cells.length <= PIXEL_TOLERANCE;
+    }).map(s => s.id);
+    if (slideIds.length < 2) continue;
+
+    const box: DetectedRegion = {
+      xmin: (minX / GRID_WIDTH) * 100,
+      ymin: (minY / GRID_HEIGHT) * 100,
+      xmax: ((maxX + 1) / GRID_WIDTH) * 100,
+      ymax: ((maxY + 1) / GRID_HEIGHT) * 100,
+    };
+    regions.push({
+      id: `visual-${regions.length}`,
+      box,
+      kind: 'visual',
+      label: describeRegion(box, 'visual'),
+      slideIds,
+      coverage: slideIds.length / slides.length,
+      suggested: isNearEdge(box),
+    });
+  }
+  return regions;
+};
+
+/**
+ * Text compared across slides: case, spacing and numbers are ignored, so "Page 3" matches "page 12".
+ */
+const toTextPattern = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+/**
+ * Recognises all text on a slide. Born-digital PDF pages use their embedded text.
+ */
+const recognizeAllText = async (settings: OCRProviderSettings, slide: Slide): Promise<OCRResult[]> => {
+  if (slide.textLayer) return slide.textLayer;
+  const fullMask = await buildMaskFromRegions(slide.originalImageSrc, [{ xmin: 0, ymin: 0, xmax: 100, ymax: 100 }], 0);
+  return (await performOCR(settings, slide.originalImageSrc, fullMask)).lines;
+};
+
+/**
+ * Clusters recognised text that recurs with the same content at the same position on the sampled slides.
+ * Slide titles share a position but not their content, so they don't form a cluster.
+ * Every `sampleStep`-th slide is sampled; a cluster is assigned to the slides from each matching
+ * sample up to the next sample, so a footer found on the first half of the deck stays there.
+ */
+const findTextRepeats = (
+  slides: Slide[],
+  sampled: { slide: Slide; lines: OCRResult[] }[],
+  sampleStep: number
+): RepeatedRegion[] => {
+  const clusters: { box: DetectedRegion; pattern: string; slideIds: Set<string> }[] = [];
+  sampled.forEach(({ slide, lines }) => {
+    lines.forEach(({ text, box }) => {
+      const pattern = toTextPattern(text);
+      if (!pattern) return;
+      const match = clusters.find(c => c.pattern === pattern && boxIoU(c.box, box) >= 0.4);
+      if (match) {
+        match.box = unionBox(match.box, box);
+        match.slideIds.add(slide.id);
+      } else {
+        clusters.push({ box, pattern, slideIds: new Set([slide.id]) });
+      }
+    });
+  });
+
+  const minCount = Math.max(2, Math.ceil(sampled.length * MIN_AGREEMENT));
+  return clusters
+    .filter(c => c.slideIds.size >= minCount)
+    .map((c, i): RepeatedRegion => ({
+      id: `text-${i}`,
+      box: c.box,
+      kind: 'text',
+      label: describeRegion(c.box, 'text'),
+      slideIds: slides.filter((_, i) => c.slideIds.has(slides[i - i % sampleStep].id)).map(s => s.id),
+      coverage: c.slideIds.size / sampled.length,
+      suggested: c.slideIds.size === sampled.length,
+    }));
+};
+
+/**
+ * Analyzes the deck and returns the repeated regions, most common first.
+ * `onProgress` receives the completed fraction (0-1).
+ */
+export const analyzeDeck = async (
+  settings: OCRProviderSettings | null,
+  slides: Slide[],
+  options: DeckAnalysisOptions,
+  onProgress: (fraction: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<RepeatedRegion[]> => {
+  if (slides.length < 2) return [];
+
+  const sampleStep = Math.max(1, Math.ceil(slides.length / MAX_TEXT_SAMPLES));
+  const textSamples = options.detectText && settings ? slides.filter((_, i) => i % sampleStep === 0) : [];
+  const totalSteps = slides.length + textSamples.length;
+  let doneSteps = 0;
+  const step = () => onProgress(++doneSteps / totalSteps);
+
+  const grids: Float32Array[] = [];
+  for (const slide of slides) {
+    throwIfAborted(signal);
+    grids.push(await toGrid(slide.originalImageSrc));
+    step();
+  }
+  const visual = slides.length >= 3 ? findVisualRepeats(slides, grids) : [];
+
+  const sampled: { slide: Slide; lines: OCRResult[] }[] = [];
+  for (const slide of textSamples) {
+    throwIfAborted(signal);
+    sampled.push({ slide, lines: await recognizeAllText(settings!, slide) });
+    step();
+  }
+  const text = sampled.length >= 2 ? findTextRepeats(slides, sampled, sampleStep) : [];
+
+  // A text region that overlaps a visual one describes the same element; keep one entry
+  const merged: RepeatedRegion[] = [...visual];
+  text.forEach(region => {
+    const overlap = merged.find(r => boxIoU(r.box, region.box) >= 0.3);
+    if (overlap) {
+      overlap.box = unionBox(overlap.box, region.box);
+      overlap.slideIds = Array.from(new Set([...overlap.slideIds, ...region.slideIds]));
+      overlap.coverage = Math.max(overlap.coverage, region.coverage);
+    } else {
+      merged.push(region);
+    }
+  });
+
+  return merged.sort((a, b) => b.coverage - a.coverage);
+};
@@ -0,0 +1,711 @@
+import { InpaintMode } from "../types";
+
+/**
+ * Pure inpainting algorithms, shared by the inpainting worker.
+ * Everything here runs without the DOM (OffscreenCanvas only).
+ *
+ * Mask convention: transparent (alpha < 128) in the mask means "erase this".
+ * runInpainting hardens soft (feathered) masks before calling the algorithms.
+ */
+
+/** Called with the completed fraction (0-1) of the current job. */
+export type ProgressCallback = (fraction: number) => void;
+
+const HOLE_ALPHA = 128;
+
+// 8-connected neighbourhood
+const NEIGHBOR_OFFSETS = [
+  [0, -1], [0, 1], [-1, 0], [1, 0],
+  [-1, -1], [1, -1], [-1, 1], [1, 1]
+];
+
+/**
+ * Iterative Diffusion.
+ *
+ * @param preserveContent If true, it treats the existing pixels in the hole as an "initial guess"
+ * and blends them with neighbors (Seam Healing / Blur).
+ * If false, it clears the hole first and fills from edges (Space Filling).
+ */
+const sharpDiffusion = (
+  data: Uint8ClampedArray,
+  mData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  maxPasses: number,
+  preserveContent: boolean = false,
+  onProgress: ProgressCallback = () => {}
+) => {
+  if (preserveContent) {
+    smoothHole(data, mData, width, height, maxPasses, onProgress);
+  } else {
+    frontierFill(data, mData, width, height, maxPasses, onProgress);
+  }
+};
+
+/**
+ * Space Filling: peels the hole from its edges inwards.
+ * Each pass only visits the current frontier (hole pixels touching filled ones),
+ * so the total cost is linear in the hole size.
+ */
+const frontierFill = (
+  data: Uint8ClampedArray,
+  mData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  maxPasses: number,
+  onProgress: ProgressCallback
+) => {
+  const size = width * height;
+  // 0 = hole (not yet filled), 1 = filled/known
+  const filled = new Uint8Array(size);
+  // Marks hole pixels already queued for the next pass
+  const queued = new Uint8Array(size);
+  let total = 0;
+
+  for (let p = 0; p < size; p++) {
+    if (mData[p * 4 + 3] < HOLE_ALPHA) {
+      data[p * 4 + 3] = 0; // Clear pixel
+      total++;
+    } else if (data[p * 4 + 3] > 0) {
+      filled[p] = 1;
+    }
+  }
+  if (total === 0) return;
+
+  const enqueueHoleNeighbors = (p: number, into: number[]) => {
+    const x = p % width, y = (p - x) / width;
+    for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+      const nx = x + dx, ny = y + dy;
+      if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+      const n = ny * width + nx;
+      if (!filled[n] && !queued[n] && mData[n * 4 + 3] < HOLE_ALPHA) {
+        queued[n] = 1;
+        into.push(n);
+      }
+    }
+  };
+
+  // Initial frontier: hole pixels next to known pixels
+  let frontier: number[] = [];
+  for (let p = 0; p < size; p++) {
+    if (filled[p]) continue;
+    if (mData[p * 4 + 3] >= HOLE_ALPHA) continue;
+    const x = p % width, y = (p - x) / width;
+    for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+      const nx = x + dx, ny = y + dy;
+      if (nx >= 0 && nx < width && ny >= 0 && ny < height && filled[ny * width + nx]) {
+        queued[p] = 1;
+        frontier.push(p);
+        break;
+      }
+    }
+  }
+
+  let done = 0;
+  let pass = 0;
+  let buffer = new Uint8ClampedArray(0);
+
+  while (frontier.length > 0 && pass < maxPasses) {
+    if (buffer.length < frontier.length * 3) buffer = new Uint8ClampedArray(frontier.length * 3);
+
+    // Average the filled neighbours (values from the previous pass only)
+    for (let k = 0; k < frontier.length; k++) {
+      const p = frontier[k];
+      const x = p % width, y = (p - x) / width;
+      let r = 0, g = 0, b = 0, count = 0;
+      for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+        const n = ny * width + nx;
+        if (filled[n]) {
+          r += data[n * 4];
+          g += data[n * 4 + 1];
+          b += data[n * 4 + 2];
+          count++;
+        }
+      }
+      buffer[k * 3] = Math.round(r / count);
+      buffer[k * 3 + 1] = Math.round(g / count);
+      buffer[k * 3 + 2] = Math.round(b / count);
+    }
+
+    const next: number[] = [];
+    for (let k = 0; k < frontier.length; k++) {
+      const p = frontier[k];
+      data[p * 4] = buffer[k * 3];
+      data[p * 4 + 1] = buffer[k * 3 + 1];
+      data[p * 4 + 2] = buffer[k * 3 + 2];
+      data[p * 4 + 3] = 255;
+      filled[p] = 1;
+    }
+    for (let k = 0; k < frontier.length; k++) {
+      enqueueHoleNeighbors(frontier[k], next);
+    }
+
+    done += frontier.length;
+    onProgress(done / total);
+    frontier = next;
+    pass++;
+  }
+};
+
+/**
+ * Seam Healing: box-blurs the hole in place, keeping the current content as the starting point.
+ */
+const smoothHole = (
+  data: Uint8ClampedArray,
+  mData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  passes: number,
+  onProgress: ProgressCallback
+) => {
+  const holePixels: number[] = [];
+  for (let p = 0; p < width * height; p++) {
+    if (mData[p * 4 + 3] < HOLE_ALPHA) holePixels.push(p);
+  }
+  const buffer = new Uint8ClampedArray(holePixels.length * 3);
+
+  for (let pass = 0; pass < passes; pass++) {
+    for (let k = 0; k < holePixels.length; k++) {
+      const p = holePixels[k];
+      const x = p % width, y = (p - x) / width;
+      let r = 0, g = 0, b = 0, count = 0;
+      for (const [dx, dy] of NEIGHBOR_OFFSETS) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+        const n = (ny * width + nx) * 4;
+        if (data[n + 3] > 0) {
+          r += data[n];
+          g += data[n + 1];
+          b += data[n + 2];
+          count++;
+        }
+      }
+      if (count > 0) {
+        buffer[k * 3] = Math.round(r / count);
+        buffer[k * 3 + 1] = Math.round(g / count);
+        buffer[k * 3 + 2] = Math.round(b / count);
+      } else {
+        buffer[k * 3] = data[p * 4];
+        buffer[k * 3 + 1] = data[p * 4 + 1];
+        buffer[k * 3 + 2] = data[p * 4 + 2];
+      }
+    }
+    for (let k = 0; k < holePixels.length; k++) {
+      const i = holePixels[k] * 4;
+      data[i] = buffer[k * 3];
+      data[i + 1] = buffer[k * 3 + 1];
+      data[i + 2] = buffer[k * 3 + 2];
+      data[i + 3] = 255;
+    }
+    onProgress((pass + 1) / passes);
+  }
+};
+
+/**
+ * Hierarchical Diffusion Inpainting.
+ * 
+ * Solves the inpainting problem from Coarse to Fine.
+ * 1. Downscale to 12.5%. Fill hole with global color average.
+ * 2. Upscale to 25%. Use previous result as initial guess. Blur to blend seams.
+ * 3. Upscale to 50%...
+ * 4. Upscale to 100%...
+ * 
+ * This ensures large structures (sky gradients) are consistent, while edges are sharp.
+ */
+const hierarchicalInpaint = (
+  ctx: OffscreenCanvasRenderingContext2D,
+  maskCtx: OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  onProgress: ProgressCallback
+) => {
+  // Steps: 1/8 -> 1/4 -> 1/2 -> 1/1
+  const scales = [0.125, 0.25, 0.5, 1.0];
+  const totalWork = scales.reduce((sum, s) => sum + s * s, 0);
+  
+  let lastCanvas: OffscreenCanvas | null = null;
+
+  scales.forEach((scale, index) => {
+      const sw = Math.ceil(width * scale);
+      const sh = Math.ceil(height * scale);
+      
+      const sCanvas = new OffscreenCanvas(sw, sh);
+      const sCtx = sCanvas.getContext('2d');
+      if (!sCtx) return;
+
+      // 1. Draw Original Image at this scale
+      sCtx.drawImage(ctx.canvas, 0, 0, sw, sh);
+      
+      // 2. Prepare Mask at this scale
+      const mCanvas = new OffscreenCanvas(sw, sh);
+      const mCtx = mCanvas.getContext('2d');
+      if (!mCtx) return;
+      mCtx.drawImage(maskCtx.canvas, 0, 0, sw, sh);
+      
+      // 3. If we have a Low-Res Guess, inject it into the hole
+      if (lastCanvas) {
+          // Draw the low-res result scaled up (this creates the smooth gradient base)
+          const guessCanvas = new OffscreenCanvas(sw, sh);
+          const gCtx = guessCanvas.getContext('2d');
+          if (!gCtx) return;
+          
+          gCtx.imageSmoothingEnabled = true;
+          gCtx.imageSmoothingQuality = 'high';
+          gCtx.drawImage(lastCanvas, 0, 0, sw, sh);
+
+          const guessData = gCtx.getImageData(0,0,sw,sh).data;
+          const currentData = sCtx.getImageData(0,0,sw,sh);
+          const currentMaskData = mCtx.getImageData(0,0,sw,sh).data;
+          
+          for(let i=0; i<guessData.length; i+=4) {
+             // If this pixel is part of the hole (Transparent in Mask)
+             if (currentMaskData[i+3] < HOLE_ALPHA) { 
+                 // Replace original (which is probably text/garbage) with our smooth guess
+                 currentData.data[i] = guessData[i];
+                 currentData.data[i+1] = guessData[i+1];
+                 currentData.data[i+2] = guessData[i+2];
+                 currentData.data[i+3] = 255;
+             }
+          }
+          sCtx.putImageData(currentData, 0, 0);
+      }
+
+      // 4. Run Diffusion
+      // If index is 0 (Smallest), we run in "Fill Mode" (preserveContent = false) to fill from edges.
+      // If index > 0, we have a Guess, so we run in "Heal Mode" (preserveContent = true) to blend seams.
+      
+      const imgD = sCtx.getImageData(0,0,sw,sh);
+      const maskD = mCtx.getImageData(0,0,sw,sh);
+      
+      const isBaseLayer = (index === 0);
+      const passes = isBaseLayer ? 50 : 15; // More passes for base fill, fewer for blending
+      
+      // Later (larger) scales dominate the run time, so weight progress by area
+      const scaleStart = scales.slice(0, index).reduce((sum, s) => sum + s * s, 0) / totalWork;
+      const scaleShare = (scale * scale) / totalWork;
+      sharpDiffusion(imgD.data, maskD.data, sw, sh, passes, !isBaseLayer,
+        fraction => onProgress(scaleStart + fraction * scaleShare));
+      
+      sCtx.putImageData(imgD, 0, 0);
+      lastCanvas = sCanvas;
+  });
+  
+  // 5. Final Composite with Noise
+  if (lastCanvas) {
+     const finalData = ctx.getImageData(0,0,width,height);
+     // The lastCanvas is already 1.0 scale
+     const smoothData = lastCanvas.getContext('2d')!.getImageData(0,0,width,height).data;
+     const mData = maskCtx.getImageData(0,0,width,height).data;
+     
+     for(let i=0; i<finalData.data.length; i+=4) {
+         if(mData[i+3] < HOLE_ALPHA) {
+             // Add texture to prevent "plastic" look
+             const noise = (Math.random() - 0.5) * 12; 
+             
+             finalData.data[i] = Math.max(0, Math.min(255, smoothData[i] + noise));
+             finalData.data[i+1] = Math.max(0, Math.min(255, smoothData[i+1] + noise));
+             finalData.data[i+2] = Math.max(0, Math.min(255, smoothData[i+2] + noise));
+             finalData.data[i+3] = 255;
+         }
+     }
+     ctx.putImageData(finalData, 0, 0);
+  }
+};
+
+
+// Patch size for texture synthesis is (2 * PATCH_RADIUS + 1)^2
+const PATCH_RADIUS = 3;
+// Coarsest pyramid level is no larger than this (longest side, px)
+const PYRAMID_MIN_SIZE = 128;
+const PYRAMID_MAX_LEVELS = 6;
+
+interface PyramidLevel {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA
+  hole: Uint8Array;        // 1 = pixel to synthesize
+}
+
+/**
+ * Halves a pyramid level. A coarse pixel is a hole if any of its children is,
+ * and its colour only averages known children so text never bleeds into the source.
+ */
+const downsampleLevel = (level: PyramidLevel): PyramidLevel => {
+  const width = Math.ceil(level.width / 2);
+  const height = Math.ceil(level.height / 2);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const hole = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, count = 0, isHole = 0;
+      for (let cy = y * 2; cy < Math.min(y * 2 + 2, level.height); cy++) {
+        for (let cx = x * 2; cx < Math.min(x * 2 + 2, level.width); cx++) {
+          const c = cy * level.width + cx;
+          if (level.hole[c]) {
+            isHole = 1;
+          } else {
+            r += level.data[c * 4];
+            g += level.data[c * 4 + 1];
+            b += level.data[c * 4 + 2];
+            count++;
+          }
+        }
+      }
+      const i = y * width + x;
+      hole[i] = isHole;
+      if (count > 0) {
+        data[i * 4] = r / count;
+        data[i * 4 + 1] = g / count;
+        data[i * 4 + 2] = b / count;
+      }
+      data[i * 4 + 3] = 255;
+    }
+  }
+  return { width, height, data, hole };
+};
+
+/**
+ * Marks pixels whose whole patch lies inside the image and outside the hole.
+ * Only these may be copied from.
+ */
+const findValidSources = (level: PyramidLevel) => {
+  const { width, height, hole } = level;
+  const R = PATCH_RADIUS;
+  // Summed-area table of the hole so each patch check is O(1)
+  const sat = new Int32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += hole[y * width + x];
+      sat[(y + 1) * (width + 1) + x + 1] = sat[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  const valid = new Uint8Array(width * height);
+  const list: number[] = [];
+  for (let y = R; y < height - R; y++) {
+    for (let x = R; x < width - R; x++) {
+      const x0 = x - R, y0 = y - R, x1 = x + R + 1, y1 = y + R + 1;
+      const holeCount = sat[y1 * (width + 1) + x1] - sat[y0 * (width + 1) + x1]
+        - sat[y1 * (width + 1) + x0] + sat[y0 * (width + 1) + x0];
+      if (holeCount === 0) {
+        valid[y * width + x] = 1;
+        list.push(y * width + x);
+      }
+    }
+  }
+  return { valid, list };
+};
+
+/**
+ * Sum of squared differences between the patch around target pixel `p`
+ * and source pixel `s`. Stops early once `best` is exceeded.
+ */
+const patchDistance = (level: PyramidLevel, p: number, s: number, best: number) => {
+  const { width, height, data } = level;
+  const R = PATCH_RADIUS;
+  const px = p % width, py = (p - px) / width;
+  const sx = s % width, sy = (s - sx) / width;
+  let dist = 0;
+
+  for (let dy = -R; dy <= R; dy++) {
+    const ty = py + dy;
+    if (ty < 0 || ty >= height) continue;
+    for (let dx = -R; dx <= R; dx++) {
+      const tx = px + dx;
+      if (tx < 0 || tx >= width) continue;
+      const ti = (ty * width + tx) * 4;
+      const si = ((sy + dy) * width + sx + dx) * 4;
+      const dr = data[ti] - data[si];
+      const dg = data[ti + 1] - data[si + 1];
+      const db = data[ti + 2] - data[si + 2];
+      dist += dr * dr + dg * dg + db * db;
+    }
+    if (dist >= best) return dist;
+  }
+  return dist;
+};
+
+/**
+ * One PatchMatch sweep over the hole: propagate good matches from the
+ * already visited neighbours, then try random candidates around the current best.
+ */
+const patchMatchSweep = (
+  level: PyramidLevel,
+  holePixels: Int32Array,
+  nnf: Int32Array,
+  cost: Float64Array,
+  valid: Uint8Array,
+  reverse: boolean
+) => {
+  const { width, height, hole } = level;
+  const step = reverse ? -1 : 1;
+  const maxRadius = Math.max(width, height);
+
+  const tryCandidate = (p: number, s: number) => {
+    if (s < 0 || !valid[s] || s === nnf[p]) return;
+    const d = patchDistance(level, p, s, cost[p]);
+    if (d < cost[p]) {
+      cost[p] = d;
+      nnf[p] = s;
+    }
+  };
+
+  for (let k = 0; k < holePixels.length; k++) {
+    const p = holePixels[reverse ? holePixels.length - 1 - k : k];
+    const x = p % width, y = (p - x) / width;
+
+    // Propagation: the neighbour's match, shifted by one pixel
+    const nx = x - step, ny = y - step;
+    if (nx >= 0 && nx < width && hole[p - step] && nnf[p - step] >= 0) {
+      const s = nnf[p - step];
+      const sx = s % width;
+      if (sx + step >= 0 && sx + step < width) tryCandidate(p, s + step);
+    }
+    if (ny >= 0 && ny < height && hole[p - step * width] && nnf[p - step * width] >= 0) {
+      const s = nnf[p - step * width] + step * width;
+      if (s >= 0 && s < width * height) tryCandidate(p, s);
+    }
+
+    // Random search with exponentially shrinking radius
+    for (let radius = maxRadius; radius >= 1; radius = Math.floor(radius / 2)) {
+      const best = nnf[p];
+      const bx = best % width, by = (best - bx) / width;
+      const cx = Math.round(bx + (Math.random() * 2 - 1) * radius);
+      const cy = Math.round(by + (Math.random() * 2 - 1) * radius);
+      if (cx < 0 || cx >= width || cy < 0 || cy >= height) continue;
+      tryCandidate(p, cy * width + cx);
+    }
+  }
+};
+
+/**
+ * Rebuilds every hole pixel as the average of the pixels that the
+ * overlapping patches' matches would put there (patch voting).
+ */
+const voteHole = (level: PyramidLevel, holePixels: Int32Array, nnf: Int32Array) => {
+  const { width, height, data, hole } = level;
+  const R = PATCH_RADIUS;
+  const result = new Uint8ClampedArray(holePixels.length * 3);
+
+  for (let k = 0; k < holePixels.length; k++) {
+    const p = holePixels[k];
+    const x = p % width, y = (p - x) / width;
+    let r = 0, g = 0, b = 0, count = 0;
+
+    for (let dy = -R; dy <= R; dy++) {
+      const qy = y + dy;
+      if (qy < 0 || qy >= height) continue;
+      for (let dx = -R; dx <= R; dx++) {
+        const qx = x + dx;
+        if (qx < 0 || qx >= width) continue;
+        const q = qy * width + qx;
+        if (!hole[q] || nnf[q] < 0) continue;
+        // Pixel p sits at offset (-dx, -dy) inside q's patch
+        const si = (nnf[q] - dy * width - dx) * 4;
+        r += data[si];
+        g += data[si + 1];
+        b += data[si + 2];
+        count++;
+      }
+    }
+
+    if (count > 0) {
+      result[k * 3] = r / count;
+      result[k * 3 + 1] = g / count;
+      result[k * 3 + 2] = b / count;
+    } else {
+      result[k * 3] = data[p * 4];
+      result[k * 3 + 1] = data[p * 4 + 1];
+      result[k * 3 + 2] = data[p * 4 + 2];
+    }
+  }
+
+  for (let k = 0; k < holePixels.length; k++) {
+    const i = holePixels[k] * 4;
+    data[i] = result[k * 3];
+    data[i + 1] = result[k * 3 + 1];
+    data[i + 2] = result[k * 3 + 2];
+    data[i + 3] = 255;
+  }
+};
+
+/**
+ * Exemplar-based (PatchMatch) Texture Inpainting.
+ *
+ * Fills the hole with patches copied from the surrounding image instead of
+ * blurring it, so paper grain, hatching and photo backgrounds stay intact.
+ * 1. Build an image pyramid. Fill the coarsest hole with diffusion as a first guess.
+ * 2. At each level, alternate PatchMatch (nearest patch search) and patch voting.
+ * 3. Upscale the matches and the filled image to seed the next finer level.
+ */
+const patchMatchInpaint = (
+  data: Uint8ClampedArray,
+  mData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  onProgress: ProgressCallback
+) => {
+  const hole = new Uint8Array(width * height);
+  for (let i = 0; i < hole.length; i++) {
+    hole[i] = mData[i * 4 + 3] < HOLE_ALPHA ? 1 : 0;
+  }
+
+  const levels: PyramidLevel[] = [{ width, height, data, hole }];
+  while (levels.length < PYRAMID_MAX_LEVELS) {
+    const top = levels[levels.length - 1];
+    if (Math.max(top.width, top.height) <= PYRAMID_MIN_SIZE) break;
+    if (Math.min(top.width, top.height) / 2 < PATCH_RADIUS * 8) break;
+    levels.push(downsampleLevel(top));
+  }
+
+  // Initial guess for the coarsest level (fill mode diffusion)
+  const coarsest = levels[levels.length - 1];
+  const coarseMask = new Uint8ClampedArray(coarsest.width * coarsest.height * 4);
+  for (let i = 0; i < coarsest.hole.length; i++) {
+    coarseMask[i * 4 + 3] = coarsest.hole[i] ? 0 : 255;
+  }
+  sharpDiffusion(coarsest.data, coarseMask, coarsest.width, coarsest.height, Math.max(coarsest.width, coarsest.height), false);
+
+  // Finer levels start from a better guess and are more expensive, so iterate less
+  const iterationsFor = (li: number) => li === levels.length - 1 ? 6 : li === 0 ? 2 : 4;
+  const totalWork = levels.reduce((sum, l, li) => sum + l.width * l.height * iterationsFor(li), 0);
+  let workDone = 0;
+
+  let prevNnf: Int32Array | null = null;
+  let prevLevel: PyramidLevel | null = null;
+
+  for (let li = levels.length - 1; li >= 0; li--) {
+    const level = levels[li];
+    const { width: w, height: h } = level;
+
+    const holeList: number[] = [];
+    for (let i = 0; i < level.hole.length; i++) {
+      if (level.hole[i]) holeList.push(i);
+    }
+    const holePixels = Int32Array.from(holeList);
+    if (holePixels.length === 0) {
+      workDone += w * h * iterationsFor(li);
+      continue;
+    }
+
+    // Seed the hole with the upscaled result of the coarser level
+    if (prevLevel) {
+      for (let k = 0; k < holePixels.length; k++) {
+        const p = holePixels[k];
+        const x = p % w, y = (p - x) / w;
+        const cx = Math.min(prevLevel.width - 1, x >> 1);
+        const cy = Math.min(prevLevel.height - 1, y >> 1);
+        const ci = (cy * prevLevel.width + cx) * 4;
+        level.data[p * 4] = prevLevel.data[ci];
+        level.data[p * 4 + 1] = prevLevel.data[ci + 1];
+        level.data[p * 4 + 2] = prevLevel.data[ci + 2];
+        level.data[p * 4 + 3] = 255;
+      }
+    }
+
+    const { valid, list: sources } = findValidSources(level);
+    if (sources.length === 0) {
+      // Hole covers everything at this scale; keep the seeded guess
+      workDone += w * h * iterationsFor(li);
+      prevLevel = level;
+      prevNnf = null;
+      continue;
+    }
+
+    // Initialise matches: upscale the coarser field where possible, random otherwise
+    const nnf = new Int32Array(w * h).fill(-1);
+    for (let k = 0; k < holePixels.length; k++) {
+      const p = holePixels[k];
+      let s = -1;
+      if (prevNnf && prevLevel) {
+        const x = p % w, y = (p - x) / w;
+        const cx = Math.min(prevLevel.width - 1, x >> 1);
+        const cy = Math.min(prevLevel.height - 1, y >> 1);
+        const cs = prevNnf[cy * prevLevel.width + cx];
+        if (cs >= 0) {
+          const csx = cs % prevLevel.width, csy = (cs - csx) / prevLevel.width;
+          const sx = csx * 2 + (x & 1), sy = csy * 2 + (y & 1);
+          if (sx < w && sy < h && valid[sy * w + sx]) s = sy * w + sx;
+        }
+      }
+      nnf[p] = s >= 0 ? s : sources[Math.floor(Math.random() * sources.length)];
+    }
+
+    const iterations = iterationsFor(li);
+    const cost = new Float64Array(w * h);
+    for (let it = 0; it < iterations; it++) {
+      for (let k = 0; k < holePixels.length; k++) {
+        const p = holePixels[k];
+        cost[p] = patchDistance(level, p, nnf[p], Infinity);
+      }
+      patchMatchSweep(level, holePixels, nnf, cost, valid, it % 2 === 1);
+      voteHole(level, holePixels, nnf);
+      workDone += w * h;
+      onProgress(workDone / totalWork);
+    }
+
+    prevLevel = level;
+    prevNnf = nnf;
+  }
+};
+
+/**
+ * Runs the inpainting algorithm for `mode` in place on `ctx`.
+ *
+ * Every pixel that is not fully opaque in the mask is synthesized. Partially
+ * transparent (feathered) mask pixels then blend the original back in, so
+ * soft mask edges give a soft transition instead of a hard seam.
+ */
+export const runInpainting = (
+  ctx: OffscreenCanvasRenderingContext2D,
+  maskCtx: OffscreenCanvasRenderingContext2D,
+  width: number,
+  height: number,
+  mode: InpaintMode,
+  onProgress: ProgressCallback = () => {}
+) => {
+  const original = ctx.getImageData(0, 0, width, height).data;
+  const maskData = maskCtx.getImageData(0, 0, width, height);
+  // Keep the soft coverage for blending, then hand the algorithms a hard mask
+  const coverage = new Uint8Array(width * height);
+  let hasSoftEdges = false;
+  for (let p = 0; p < coverage.length; p++) {
+    const alpha = maskData.data[p * 4 + 3];
+    coverage[p] = alpha;
+    if (alpha > 0 && alpha < 255) hasSoftEdges = true;
+    maskData.data[p * 4 + 3] = alpha < 255 ? 0 : 255;
+  }
+  maskCtx.putImageData(maskData, 0, 0);
+
+  if (mode === 'photo') {
+    // Superior for gradients, skies, and removing large artifacts
+    hierarchicalInpaint(ctx, maskCtx, width, height, onProgress);
+  } else {
+    const imgData = ctx.getImageData(0, 0, width, height);
+    if (mode === 'texture') {
+      // Copy real texture from the surroundings (grain, hatching, photo backgrounds)
+      patchMatchInpaint(imgData.data, maskData.data, width, height, onProgress);
+    } else {
+      // Good for solid colors and sharp lines
+      sharpDiffusion(imgData.data, maskData.data, width, height, Math.max(width, height), false, onProgress);
+    }
+    ctx.putImageData(imgData, 0, 0);
+  }
+
+  if (!hasSoftEdges) return;
+  const result = ctx.getImageData(0, 0, width, height);
+  for (let p = 0; p < coverage.length; p++) {
+    const keep = coverage[p];
+    if (keep === 0 || keep === 255) continue;
+    const a = keep / 255;
+    const i = p * 4;
+    result.data[i] = original[i] * a + result.data[i] * (1 - a);
+    result.data[i + 1] = original[i + 1] * a + result.data[i + 1] * (1 - a);
+    result.data[i + 2] = original[i + 2] * a + result.data[i + 2] * (1 - a);
+  }
+  ctx.putImageData(result, 0, 0);
+};
@@ -0,0 +1,81 @@
+import { InpaintMode } from "../types";
+import { runInpainting } from "./inpaintAlgorithms";
+import { refineMask, MaskRefinement } from "./maskService";
+import { blobToDataUrl } from "./fileUtils";
+
+/**
+ * Web Worker that runs inpainting off the main thread.
+ * Receives an InpaintRequest, posts progress updates and finally the result (or an error).
+ * Mask refinement (grow/shrink/feather/tighten) runs here too, before inpainting.
+ */
+
+export interface InpaintRequest {
+  imageSrc: string;
+  maskSrc: string;
+  mode: InpaintMode;
+  refinement?: MaskRefinement;
+}
+
+export type InpaintWorkerMessage =
+  | { type: 'progress'; value: number }
+  | { type: 'done'; result: string; maskSrc: string } // maskSrc is the refined mask, or the given one
+  | { type: 'error'; message: string };
+
+// Only report progress in steps of 1% to avoid flooding the main thread
+const PROGRESS_STEP = 0.01;
+
+const loadBitmap = async (src: string, label: string): Promise<ImageBitmap> => {
+  try {
+    const blob = await (await fetch(src)).blob();
+    return await createImageBitmap(blob);
+  } catch {
+    throw new Error(`Failed to load ${label}`);
+  }
+};
+
+const post = (message: InpaintWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<InpaintRequest>) => {
+  const { imageSrc, maskSrc, mode, refinement } = event.data;
+  try {
+    const [img, mask] = await Promise.all([
+      loadBitmap(imageSrc, "original image"),
+      loadBitmap(maskSrc, "mask image"),
+    ]);
+    const width = img.width;
+    const height = img.height;
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas error");
+    ctx.drawImage(img, 0, 0);
+
+    const maskCanvas = new OffscreenCanvas(width, height);
+    const maskCtx = maskCanvas.getContext('2d');
+    if (!maskCtx) throw new Error("Mask error");
+    maskCtx.drawImage(mask, 0, 0);
+
+    let usedMaskSrc = maskSrc;
+    if (refinement) {
+      // Refinement needs the source pixels, so it runs before the image is painted over
+      const maskData = maskCtx.getImageData(0, 0, width, height);
+      refineMask(maskData, ctx.getImageData(0, 0, width, height), refinement);
+      maskCtx.putImageData(maskData, 0, 0);
+      usedMaskSrc = await blobToDataUrl(await maskCanvas.convertToBlob({ type: 'image/png' }));
+    }
+
+    let lastReported = 0;
+    runInpainting(ctx, maskCtx, width, height, mode, fraction => {
+      if (fraction - lastReported >= PROGRESS_STEP) {
+        lastReported = fraction;
+        post({ type: 'progress', value: Math.min(1, fraction) });
+      }
+    });
+
+    const blob = await canvas.convertToBlob({ type: 'image/png' });
+    post({ type: 'done', result: await blobToDataUrl(blob), maskSrc: usedMaskSrc });
+  } catch (e: any) {
+    console.error("Diffusion Algo Failed", e);
+    post({ type: 'error', message: e?.message || String(e) });
+  }
+};
@@ -0,0 +1,196 @@
+import { BoundingBox, OCRResult, OCRTextStyle, TextAlign } from "../types";
+
+/**
+ * Layout analysis: groups individual OCR lines into text blocks
+ * (paragraphs and bullet/numbered lists) so each block can be exported
+ * as one multi-paragraph text box.
+ */
+
+export type ListType = 'bullet' | 'number';
+
+export interface TextParagraph {
+  text: string;          // Text without the list marker
+  listType?: ListType;
+  marker?: string;       // Numbering as written, e.g. "3.", "b)", "一、"; numbered items only
+  indentLevel: number;   // 0 = flush with the block
+  style?: OCRTextStyle;
+}
+
+export interface TextBlock {
+  box: BoundingBox;
+  align: TextAlign;
+  paragraphs: TextParagraph[];
+  lines: OCRResult[];    // Source lines, top to bottom
+}
+
+// "•", "-", "*", "▪" ... followed by whitespace
+const BULLET_PATTERN = /^\s*([•●○◦▪▫■□►▶➢✓✔\-–—*·])\s+/;
+// "1.", "1)", "(1)" followed by whitespace, or "一、", "1、"
+const NUMBER_PATTERN = /^\s*(\(?\d{1,3}[.)])\s+|^\s*((?:\d{1,3}|[一二三四五六七八九十]+)、)\s*/;
+// "a.", "B)", "(c)", "iv." followed by whitespace; on its own this is as likely
+// to be an initial ("A. Lincoln"), so it only counts when the block has several
+const LETTER_PATTERN = /^\s*(\(?(?:[a-zA-Z]|[ivxIVX]{1,4})[.)])\s+/;
+
+interface ListMarker {
+  listType?: ListType;
+  marker?: string;  // The numbering as written
+  weak?: boolean;   // Letter or roman numbering, which needs a second item to count
+  text: string;
+}
+
+/**
+ * Detects a list marker at the start of a line and returns it stripped.
+ */
+export const parseListMarker = (text: string): ListMarker => {
+  const bullet = text.match(BULLET_PATTERN);
+  if (bullet) return { listType: 'bullet', text: text.slice(bullet[0].length) };
+  const number = text.match(NUMBER_PATTERN);
+  if (number && number[0].length < text.length) {
+    return { listType: 'number', marker: number[1] || number[2], text: text.slice(number[0].length) };
+  }
+  const letter = text.match(LETTER_PATTERN);
+  if (letter && letter[0].length < text.length) {
+    return { listType: 'number', marker: letter[1], weak: true, text: text.slice(letter[0].length) };
+  }
+  return { text };
+};
+
+/**
+ * Text of a numbered paragraph with its original marker in front.
+ */
+export const withListMarker = (p: TextParagraph): string => {
+  if (p.listType !== 'number' || !p.marker) return p.text;
+  return p.marker.endsWith('、') ? `${p.marker}${p.text}` : `${p.marker} ${p.text}`;
+};
+
+const lineHeight = (l: OCRResult) => l.box.ymax - l.box.ymin;
+
+const CJK_PATTERN = /[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+/**
+ * Joins a wrapped line onto the previous one. CJK text is joined without a space.
+ */
+const joinWrapped = (a: string, b: string) => {
+  const needsSpace = !(CJK_PATTERN.test(a.slice(-1)) || CJK_PATTERN.test(b.charAt(0)));
+  return needsSpace ? `${a} ${b}` : `${a}${b}`;
+};
+
+/**
+ * Infers the alignment shared by a set of lines from how their edges line up.
+ */
+const inferAlign = (lines: OCRResult[]): TextAlign => {
+  const styled = lines.map(l => l.style?.align).filter(Boolean) as TextAlign[];
+  if (styled.length === lines.length && styled.every(a => a === styled[0])) return styled[0];
+  if (lines.length < 2) return styled[0] || 'left';
+
+  const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+  const lefts = spread(lines.map(l => l.box.xmin));
+  const rights = spread(lines.map(l => l.box.xmax));
+  const centers = spread(lines.map(l => (l.box.xmin + l.box.xmax) / 2));
+
+  if (centers < lefts && centers < rights) return 'center';
+  if (rights < lefts) return 'right';
+  return 'left';
+};
+
+/**
+ * Decides whether `line` continues `block` (lines sorted top to bottom).
+ */
+const belongsToBlock = (block: OCRResult[], line: OCRResult): boolean => {
+  const prev = block[block.length - 1];
+  const avgHeight = (lineHeight(prev) + lineHeight(line)) / 2;
+  if (avgHeight <= 0) return false;
+
+  // Vertical spacing must look like normal line spacing
+  const gap = line.box.ymin - prev.box.ymax;
+  if (gap < -avgHeight * 0.5 || gap > avgHeight * 0.9) return false;
+
+  // Similar text size
+  const ratio = lineHeight(line) / lineHeight(prev);
+  if (ratio < 0.7 || ratio > 1.4) return false;
+
+  // Same text color if both are known
+  if (prev.style?.color && line.style?.color && prev.style.color !== line.style.color) return false;
+
+  // Horizontally aligned: left edges, right edges or centers close, or the line is an indented list item
+  const tolerance = avgHeight * 1.2;
+  const firstLeft = Math.min(...block.map(l => l.box.xmin));
+  const leftAligned = Math.abs(line.box.xmin - prev.box.xmin) < tolerance || Math.abs(line.box.xmin - firstLeft) < tolerance;
+  const rightAligned = Math.abs(line.box.xmax - prev.box.xmax) < tolerance;
+  const centerAligned = Math.abs((line.box.xmin + line.box.xmax) / 2 - (prev.box.xmin + prev.box.xmax) / 2) < tolerance;
+  const indented = line.box.xmin > firstLeft && line.box.xmin - firstLeft < avgHeight * 4 && !!parseListMarker(line.text).listType;
+
+  return leftAligned || rightAligned || centerAligned || indented;
+};
+
+/**
+ * Groups OCR lines into text blocks by alignment and spacing,
+ * then splits each block into paragraphs, detecting bullet and numbering markers.
+ */
+export const analyzeLayout = (lines: OCRResult[]): TextBlock[] => {
+  const sorted = lines
+    .filter(l => l.text.trim().length > 0)
+    .sort((a, b) => a.box.ymin - b.box.ymin || a.box.xmin - b.box.xmin);
+
+  // Greedy clustering: attach each line to the best open block above it
+  const blocks: OCRResult[][] = [];
+  for (const line of sorted) {
+    let target: OCRResult[] | null = null;
+    let bestGap = Infinity;
+    for (const block of blocks) {
+      if (!belongsToBlock(block, line)) continue;
+      const gap = line.box.ymin - block[block.length - 1].box.ymax;
+      if (gap < bestGap) {
+        bestGap = gap;
+        target = block;
+      }
+    }
+    if (target) target.push(line);
+    else blocks.push([line]);
+  }
+
+  return blocks.map(blockLines => {
+    const box: BoundingBox = {
+      ymin: Math.min(...blockLines.map(l => l.box.ymin)),
+      xmin: Math.min(...blockLines.map(l => l.box.xmin)),
+      ymax: Math.max(...blockLines.map(l => l.box.ymax)),
+      xmax: Math.max(...blockLines.map(l => l.box.xmax)),
+    };
+    const align = inferAlign(blockLines);
+    const parsed = blockLines.map(l => parseListMarker(l.text));
+    // Letter / roman numbering needs at least two items in the block
+    const weakCount = parsed.filter(m => m.weak).length;
+    const markers = parsed.map((m, idx) => m.weak && weakCount < 2 ? { text: blockLines[idx].text } : m);
+    const hasListItems = markers.some(m => m.listType);
+
+    const paragraphs: TextParagraph[] = [];
+    blockLines.forEach((line, idx) => {
+      const marker = markers[idx];
+      const height = lineHeight(line) || 1;
+      const indentLevel = align === 'left' ? Math.min(Math.round((line.box.xmin - box.xmin) / (height * 1.5)), 4) : 0;
+      const prev = paragraphs[paragraphs.length - 1];
+
+      // In a list, an unmarked line that is indented past the marker is a wrapped continuation
+      if (hasListItems && !marker.listType && prev?.listType && line.box.xmin > box.xmin + height * 0.5) {
+        prev.text = joinWrapped(prev.text, marker.text.trim());
+        return;
+      }
+
+      // Outside lists, a block is one paragraph; the original line breaks are kept
+      if (!hasListItems && prev) {
+        prev.text = `${prev.text}\n${marker.text.trim()}`;
+        return;
+      }
+
+      paragraphs.push({
+        text: marker.text.trim(),
+        listType: marker.listType,
+        marker: marker.marker,
+        indentLevel: marker.listType ? Math.max(0, indentLevel) : 0,
+        style: line.style,
+      });
+    });
+
+    return { box, align, paragraphs, lines: blockLines };
+  });
+};
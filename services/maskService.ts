@@ -0,0 +1,438 @@
+import type { DetectedRegion } from "./ocrService";
+
+/**
+ * Helpers for building and transforming inpainting masks.
+ *
+ * Mask convention (same as StepMasking.handleConfirm):
+ * opaque white = keep, transparent = erase.
+ */
+
+/**
+ * Helper to load an image element from a data URL
+ */
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
+};
+
+/**
+ * Builds an inpainting mask covering the given regions (0-100 percent coordinates).
+ * The mask has the same pixel size as the image.
+ */
+export const buildMaskFromRegions = async (
+  imageSrc: string,
+  regions: DetectedRegion[],
+  padding: number = 2
+): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const width = img.width;
+  const height = img.height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas error");
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.fillStyle = 'rgba(0,0,0,1)';
+  regions.forEach(r => {
+    const x = Math.max(0, (r.xmin / 100) * width - padding);
+    const y = Math.max(0, (r.ymin / 100) * height - padding);
+    const w = Math.min(width - x, ((r.xmax - r.xmin) / 100) * width + padding * 2);
+    const h = Math.min(height - y, ((r.ymax - r.ymin) / 100) * height + padding * 2);
+    ctx.fillRect(x, y, w, h);
+  });
+
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Combines masks so that every pixel erased in any of them is erased in the result.
+ * The result has the size of the first mask.
+ */
+export const mergeMasks = async (maskSrcs: string[]): Promise<string> => {
+  const masks = await Promise.all(maskSrcs.map(loadImage));
+  const width = masks[0].width;
+  const height = masks[0].height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas error");
+
+  // Alpha of the result is the lowest "keep" alpha of all masks
+  const merged = new Uint8ClampedArray(width * height).fill(255);
+  masks.forEach(mask => {
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(mask, 0, 0, width, height);
+    const data = ctx.getImageData(0, 0, width, height).data;
+    for (let p = 0; p < merged.length; p++) {
+      if (data[p * 4 + 3] < merged[p]) merged[p] = data[p * 4 + 3];
+    }
+  });
+
+  const result = ctx.createImageData(width, height);
+  for (let p = 0; p < merged.length; p++) {
+    result.data[p * 4] = 255;
+    result.data[p * 4 + 1] = 255;
+    result.data[p * 4 + 2] = 255;
+    result.data[p * 4 + 3] = merged[p];
+  }
+  ctx.putImageData(result, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * How a mask drawn on one slide is fitted onto a slide of another size.
+ * 'stretch' scales both axes; the edge anchors scale uniformly and keep
+ * the mask flush with that edge (e.g. footers stay at the bottom).
+ */
+export type MaskPlacement = 'stretch' | 'top' | 'bottom' | 'left' | 'right';
+
+/**
+ * Fits `maskSrc` onto an image the size of `targetImageSrc`.
+ * Areas the transformed mask doesn't cover are kept.
+ */
+export const transformMask = async (
+  maskSrc: string,
+  targetImageSrc: string,
+  placement: MaskPlacement
+): Promise<string> => {
+  const [mask, target] = await Promise.all([loadImage(maskSrc), loadImage(targetImageSrc)]);
+  const width = target.width;
+  const height = target.height;
+
+  let drawW = width, drawH = height, drawX = 0, drawY = 0;
+  if (placement === 'top' || placement === 'bottom') {
+    drawH = mask.height * (width / mask.width);
+    drawY = placement === 'bottom' ? height - drawH : 0;
+  } else if (placement === 'left' || placement === 'right') {
+    drawW = mask.width * (height / mask.height);
+    drawX = placement === 'right' ? width - drawW : 0;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas error");
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  // Replace (not blend) the covered area with the mask, alpha included
+  ctx.clearRect(drawX, drawY, drawW, drawH);
+  ctx.drawImage(mask, drawX, drawY, drawW, drawH);
+
+  return canvas.toDataURL('image/png');
+};
+
+export interface MaskRefinement {
+  dilate: number;         // px to grow the erased area
+  erode: number;          // px to shrink it again (applied after dilate)
+  feather: number;        // px of soft edge outside the erased area
+  tightenToText: boolean; // keep only glyph pixels inside each masked area
+}
+
+export const DEFAULT_MASK_REFINEMENT: MaskRefinement = {
+  dilate: 0,
+  erode: 0,
+  feather: 0,
+  tightenToText: false,
+};
+
+// Minimum colour distance from the background for a pixel to count as a glyph
+const MIN_TEXT_CONTRAST = 40;
+
+/**
+ * Approximate Euclidean distance (chamfer 3-4) from every pixel to the nearest `target` pixel.
+ */
+const distanceTo = (target: Uint8Array, width: number, height: number): Float32Array => {
+  const dist = new Float32Array(width * height);
+  for (let p = 0; p < dist.length; p++) dist[p] = target[p] ? 0 : Infinity;
+
+  const relax = (p: number, q: number, cost: number) => {
+    if (dist[q] + cost < dist[p]) dist[p] = dist[q] + cost;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (x > 0) relax(p, p - 1, 3);
+      if (y > 0) {
+        relax(p, p - width, 3);
+        if (x > 0) relax(p, p - width - 1, 4);
+        if (x < width - 1) relax(p, p - width + 1, 4);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const p = y * width + x;
+      if (x < width - 1) relax(p, p + 1, 3);
+      if (y < height - 1) {
+        relax(p, p + width, 3);
+        if (x < width - 1) relax(p, p + width + 1, 4);
+        if (x > 0) relax(p, p + width - 1, 4);
+      }
+    }
+  }
+
+  for (let p = 0; p < dist.length; p++) dist[p] /= 3;
+  return dist;
+};
+
+/**
+ * Otsu's threshold for a 256-bin histogram.
+ */
+const otsuThreshold = (histogram: Uint32Array, total: number): number => {
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBelow = 0, countBelow = 0, bestVariance = -1, threshold = 0;
+  for (let t = 0; t < 256; t++) {
+    countBelow += histogram[t];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+/**
+ * Shrinks each connected masked area to the pixels that differ from its local background.
+ * The background colour is the median of the unmasked pixels bordering the area;
+ * glyph pixels are separated from it with Otsu's threshold on the colour distance.
+ * Areas without a clear contrast are kept as painted.
+ */
+const tightenToTextStrokes = (erase: Uint8Array, image: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const result = new Uint8Array(erase.length);
+  const visited = new Uint8Array(erase.length);
+  const queue = new Int32Array(erase.length);
+
+  for (let start = 0; start < erase.length; start++) {
+    if (!erase[start] || visited[start]) continue;
+
+    // Collect the 4-connected area and the unmasked ring around it
+    let head = 0, tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+    const ringHist = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+    let ringCount = 0;
+    while (head < tail) {
+      const p = queue[head++];
+      const x = p % width, y = (p - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx, ny = y + dy;
+          if ((dx === 0 && dy === 0) || nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+          const n = ny * width + nx;
+          if (erase[n]) {
+            if (!visited[n] && (dx === 0 || dy === 0)) {
+              visited[n] = 1;
+              queue[tail++] = n;
+            }
+          } else {
+            ringHist[0][image[n * 4]]++;
+            ringHist[1][image[n * 4 + 1]]++;
+            ringHist[2][image[n * 4 + 2]]++;
+            ringCount++;
+          }
+        }
+      }
+    }
+
+    const area = queue.subarray(0, tail);
+    if (ringCount === 0) {
+      area.forEach(p => { result[p] = 1; });
+      continue;
+    }
+
+    const median = ringHist.map(hist => {
+      let seen = 0;
+      for (let v = 0; v < 256; v++) {
+        seen += hist[v];
+        if (seen * 2 >= ringCount) return v;
+      }
+      return 255;
+    });
+
+    // Colour distance to the background, scaled into 0-255
+    const distances = new Uint8Array(tail);
+    const histogram = new Uint32Array(256);
+    for (let k = 0; k < tail; k++) {
+      const i = area[k] * 4;
+      const d = Math.hypot(image[i] - median[0], image[i + 1] - median[1], image[i + 2] - median[2]);
+      distances[k] = Math.min(255, Math.round(d / Math.sqrt(3)));
+      histogram[distances[k]]++;
+    }
+    const threshold = Math.max(otsuThreshold(histogram, tail), Math.round(MIN_TEXT_CONTRAST / Math.sqrt(3)));
+
+    let glyphCount = 0;
+    for (let k = 0; k < tail; k++) {
+      if (distances[k] > threshold) {
+        result[area[k]] = 1;
+        glyphCount++;
+      }
+    }
+    if (glyphCount === 0) {
+      area.forEach(p => { result[p] = 1; });
+    }
+  }
+
+  // Include the anti-aliased fringe around the strokes (one pixel, kept inside the painted area)
+  const fringe = distanceTo(result, width, height);
+  for (let p = 0; p < result.length; p++) {
+    if (erase[p] && fringe[p] <= 1.5) result[p] = 1;
+  }
+  return result;
+};
+
+/**
+ * Applies the refinement steps to a mask in place (opaque white = keep, transparent = erase).
+ * `image` is the source image at the same size, needed for text-stroke tightening.
+ */
+export const refineMask = (mask: ImageData, image: ImageData, options: MaskRefinement) => {
+  const { width, height } = mask;
+  let erase = new Uint8Array(width * height);
+  for (let p = 0; p < erase.length; p++) {
+    erase[p] = mask.data[p * 4 + 3] < 128 ? 1 : 0;
+  }
+
+  if (options.tightenToText) {
+    erase = tightenToTextStrokes(erase, image.data, width, height);
+  }
+
+  if (options.dilate > 0) {
+    const dist = distanceTo(erase, width, height);
+    for (let p = 0; p < erase.length; p++) erase[p] = dist[p] <= options.dilate ? 1 : 0;
+  }
+
+  if (options.erode > 0) {
+    const keep = new Uint8Array(erase.length);
+    for (let p = 0; p < erase.length; p++) keep[p] = erase[p] ? 0 : 1;
+    const dist = distanceTo(keep, width, height);
+    for (let p = 0; p < erase.length; p++) erase[p] = dist[p] > options.erode ? 1 : 0;
+  }
+
+  // Feathering only ramps up the alpha outside the erased area, so the hole itself stays fully erased
+  const featherDist = options.feather > 0 ? distanceTo(erase, width, height) : null;
+  for (let p = 0; p < erase.length; p++) {
+    const i = p * 4;
+    mask.data[i] = 255;
+    mask.data[i + 1] = 255;
+    mask.data[i + 2] = 255;
+    if (erase[p]) {
+      mask.data[i + 3] = 0;
+    } else if (featherDist && featherDist[p] < options.feather) {
+      mask.data[i + 3] = Math.round((featherDist[p] / options.feather) * 255);
+    } else {
+      mask.data[i + 3] = 255;
+    }
+  }
+};
+
+/**
+ * Magic wand: selects the pixels 4-connected to (x, y) whose colour is within
+ * `tolerance` (largest per-channel difference) of the clicked pixel.
+ * With `fillHoles`, unselected pixels enclosed by the selection
+ * (e.g. the text on a coloured label) are selected too.
+ */
+export const floodSelect = (
+  image: ImageData,
+  x: number,
+  y: number,
+  tolerance: number,
+  fillHoles: boolean = false
+): Uint8Array => {
+  const { width, height, data } = image;
+  const selected = new Uint8Array(width * height);
+  if (x < 0 || x >= width || y < 0 || y >= height) return selected;
+
+  const seed = (y * width + x) * 4;
+  const [sr, sg, sb] = [data[seed], data[seed + 1], data[seed + 2]];
+  const isSimilar = (p: number) => {
+    const i = p * 4;
+    return Math.max(Math.abs(data[i] - sr), Math.abs(data[i + 1] - sg), Math.abs(data[i + 2] - sb)) <= tolerance;
+  };
+
+  let minX = x, maxX = x, minY = y, maxY = y;
+  const queue = new Int32Array(width * height);
+  let head = 0, tail = 0;
+  queue[tail++] = y * width + x;
+  selected[y * width + x] = 1;
+  while (head < tail) {
+    const p = queue[head++];
+    const px = p % width, py = (p - px) / width;
+    if (px < minX) minX = px;
+    if (px > maxX) maxX = px;
+    if (py < minY) minY = py;
+    if (py > maxY) maxY = py;
+    const neighbors = [
+      px > 0 ? p - 1 : -1,
+      px < width - 1 ? p + 1 : -1,
+      py > 0 ? p - width : -1,
+      py < height - 1 ? p + width : -1,
+    ];
+    for (const n of neighbors) {
+      if (n >= 0 && !selected[n] && isSimilar(n)) {
+        selected[n] = 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+
+  if (fillHoles) {
+    // Unselected pixels that can't reach the bounding box edge are enclosed
+    const outside = new Uint8Array(width * height);
+    head = 0;
+    tail = 0;
+    const pushOutside = (p: number) => {
+      if (!selected[p] && !outside[p]) {
+        outside[p] = 1;
+        queue[tail++] = p;
+      }
+    };
+    for (let bx = minX; bx <= maxX; bx++) {
+      pushOutside(minY * width + bx);
+      pushOutside(maxY * width + bx);
+    }
+    for (let by = minY; by <= maxY; by++) {
+      pushOutside(by * width + minX);
+      pushOutside(by * width + maxX);
+    }
+    while (head < tail) {
+      const p = queue[head++];
+      const px = p % width, py = (p - px) / width;
+      if (px > minX) pushOutside(p - 1);
+      if (px < maxX) pushOutside(p + 1);
+      if (py > minY) pushOutside(p - width);
+      if (py < maxY) pushOutside(p + width);
+    }
+    for (let by = minY; by <= maxY; by++) {
+      for (let bx = minX; bx <= maxX; bx++) {
+        const p = by * width + bx;
+        if (!outside[p]) selected[p] = 1;
+      }
+    }
+  }
+
+  return selected;
+};
@@ -0,0 +1,109 @@
+import { OCRResult, OCRTable } from "../types";
+
+/**
+ * Pure helpers for editing OCR entries (split / merge / add).
+ * All boxes use the 0-100 percent coordinate space.
+ */
+
+type Box = OCRResult['box'];
+
+const unionBox = (a: Box, b: Box): Box => ({
+  ymin: Math.min(a.ymin, b.ymin),
+  xmin: Math.min(a.xmin, b.xmin),
+  ymax: Math.max(a.ymax, b.ymax),
+  xmax: Math.max(a.xmax, b.xmax),
+});
+
+/**
+ * Splits an entry into two at the given character index.
+ * Splitting at a line break divides the box vertically (by line count);
+ * splitting inside a line divides it horizontally (by character count).
+ * Returns null if the split would leave one side empty.
+ */
+export const splitOCRResult = (item: OCRResult, at: number): [OCRResult, OCRResult] | null => {
+  const text = item.text;
+  // No usable cursor position: fall back to the first line break
+  if (at <= 0 || at >= text.length) {
+    at = text.indexOf('\n');
+    if (at <= 0) return null;
+  }
+
+  const isLineBreak = text[at] === '\n' || text[at - 1] === '\n';
+  const firstText = text.slice(0, at).replace(/\s+$/, '');
+  const secondText = text.slice(at).replace(/^\s+/, '');
+  if (!firstText || !secondText) return null;
+
+  const { box } = item;
+  let firstBox: Box, secondBox: Box;
+
+  if (isLineBreak) {
+    const firstLines = firstText.split('\n').length;
+    const totalLines = firstLines + secondText.split('\n').length;
+    const cutY = box.ymin + (box.ymax - box.ymin) * (firstLines / totalLines);
+    firstBox = { ...box, ymax: cutY };
+    secondBox = { ...box, ymin: cutY };
+  } else {
+    const cutX = box.xmin + (box.xmax - box.xmin) * (firstText.length / (firstText.length + secondText.length));
+    firstBox = { ...box, xmax: cutX };
+    secondBox = { ...box, xmin: cutX };
+  }
+
+  // The translation can't be split along with the text
+  const { translatedText, translatedLanguage, ...base } = item;
+  return [
+    { ...base, text: firstText, box: firstBox },
+    { ...base, text: secondText, box: secondBox },
+  ];
+};
+
+/**
+ * Merges two entries into one covering both boxes.
+ * Entries stacked vertically are joined with a line break, side-by-side entries with a space.
+ */
+export const mergeOCRResults = (a: OCRResult, b: OCRResult): OCRResult => {
+  const [first, second] = (a.box.ymin < b.box.ymin || (a.box.ymin === b.box.ymin && a.box.xmin <= b.box.xmin)) ? [a, b] : [b, a];
+  const verticalOverlap = Math.min(first.box.ymax, second.box.ymax) - Math.max(first.box.ymin, second.box.ymin);
+  const minHeight = Math.min(first.box.ymax - first.box.ymin, second.box.ymax - second.box.ymin);
+  const sameLine = minHeight > 0 && verticalOverlap > minHeight * 0.5;
+
+  const [left, right] = sameLine && second.box.xmin < first.box.xmin ? [second, first] : [first, second];
+
+  const separator = sameLine ? ' ' : '\n';
+  const { translatedText, translatedLanguage, ...base } = left;
+  const merged: OCRResult = {
+    ...base,
+    text: `${left.text}${separator}${right.text}`,
+    box: unionBox(a.box, b.box),
+  };
+  // Keep a translation only if both halves had one in the same language
+  if (left.translatedText !== undefined && right.translatedText !== undefined && left.translatedLanguage === right.translatedLanguage) {
+    merged.translatedText = `${left.translatedText}${separator}${right.translatedText}`;
+    if (left.translatedLanguage !== undefined) merged.translatedLanguage = left.translatedLanguage;
+  }
+  return merged;
+};
+
+/**
+ * Creates a new, empty entry in the middle of the slide.
+ */
+export const createOCRResult = (text: string = ''): OCRResult => ({
+  text,
+  box: { ymin: 45, xmin: 35, ymax: 55, xmax: 65 },
+});
+
+/**
+ * Turns the cells of a table back into plain entries, e.g. when a wrongly detected
+ * table is removed. OCR leaves lines inside a table out of the page's lines, so this
+ * is the only place their text survives.
+ */
+export const tableToOCRResults = (table: OCRTable): OCRResult[] => {
+  return [...table.cells]
+    .sort((a, b) => a.row - b.row || a.col - b.col)
+    .filter(cell => cell.text.trim() !== '')
+    .map(cell => {
+      const item: OCRResult = { text: cell.text, box: { ...cell.box } };
+      if (cell.translatedText !== undefined) item.translatedText = cell.translatedText;
+      if (cell.translatedLanguage !== undefined) item.translatedLanguage = cell.translatedLanguage;
+      return item;
+    });
+};
@@ -0,0 +1,177 @@
+import { BoundingBox, OCRResult, OCRTable, OCRTableCell, Slide } from "../types";
+import { downloadBlob, readFileAsText } from "./fileUtils";
+
+/**
+ * Structured JSON export of the recognised text, and importing it back onto the slides.
+ * Unlike a project file it holds no images, only references to them, so it stays small
+ * and can be edited or produced by other tools.
+ */
+
+const OCR_JSON_FORMAT = 'texteraser-ocr';
+const OCR_JSON_VERSION = 1;
+
+interface OcrJsonSlide {
+  index: number; // 0-based position in the deck
+  id: string;
+  image: {
+    source: 'processed' | 'original'; // Which image of the slide the size refers to
+    width: number;  // Pixels
+    height: number; // Pixels
+  };
+  notes: string | null;
+  ocrData: OCRResult[];
+  ocrTables: OCRTable[];
+}
+
+interface OcrJsonFile {
+  format: typeof OCR_JSON_FORMAT;
+  version: number;
+  exportedAt: string;
+  coordinates: 'percent'; // Boxes are 0-100 percent of the image size
+  slides: OcrJsonSlide[];
+}
+
+export interface OcrJsonImportResult {
+  slides: Slide[];
+  matchedCount: number;
+  matchedBy: 'id' | 'index';
+}
+
+const getImageSize = (src: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onerror = (e) => reject(e);
+    img.src = src;
+  });
+};
+
+export const downloadOcrJson = async (slides: Slide[], filename: string = "TextEraser_Presentation") => {
+  try {
+    const entries: OcrJsonSlide[] = [];
+    for (const [index, slide] of slides.entries()) {
+      const source = slide.processedImageSrc ? 'processed' : 'original';
+      const size = await getImageSize(slide.processedImageSrc || slide.originalImageSrc);
+      entries.push({
+        index,
+        id: slide.id,
+        image: { source, ...size },
+        notes: slide.notes,
+        ocrData: slide.ocrData,
+        ocrTables: slide.ocrTables,
+      });
+    }
+
+    const file: OcrJsonFile = {
+      format: OCR_JSON_FORMAT,
+      version: OCR_JSON_VERSION,
+      exportedAt: new Date().toISOString(),
+      coordinates: 'percent',
+      slides: entries,
+    };
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${filename}.json`);
+  } catch (error) {
+    console.error("JSON Export Error:", error);
+    alert("Failed to export JSON. See console for details.");
+  }
+};
+
+const normalizeBox = (raw: any): BoundingBox | null => {
+  if (!raw) return null;
+  const values = [raw.xmin, raw.ymin, raw.xmax, raw.ymax].map(Number);
+  if (values.some(v => !Number.isFinite(v))) return null;
+  const [xmin, ymin, xmax, ymax] = values.map(v => Math.min(Math.max(v, 0), 100));
+  return xmax > xmin && ymax > ymin ? { xmin, ymin, xmax, ymax } : null;
+};
+
+const normalizeLine = (raw: any): OCRResult | null => {
+  const box = normalizeBox(raw?.box);
+  if (!box || typeof raw.text !== 'string') return null;
+  const line: OCRResult = { text: raw.text, box };
+  if (raw.style && typeof raw.style === 'object') line.style = raw.style;
+  if (typeof raw.translatedText === 'string') line.translatedText = raw.translatedText;
+  if (typeof raw.translatedLanguage === 'string') line.translatedLanguage = raw.translatedLanguage;
+  return line;
+};
+
+const normalizeTable = (raw: any): OCRTable | null => {
+  const box = normalizeBox(raw?.box);
+  const rows = Number(raw?.rows);
+  const cols = Number(raw?.cols);
+  if (!box || !Number.isInteger(rows) || !Number.isInteger(cols) || rows <= 0 || cols <= 0 || !Array.isArray(raw.cells)) {
+    return null;
+  }
+  const cells = (raw.cells as any[]).map((c): OCRTableCell | null => {
+    const cellBox = normalizeBox(c?.box);
+    const row = Number(c?.row);
+    const col = Number(c?.col);
+    if (!cellBox || !Number.isInteger(row) || !Number.isInteger(col) || row < 0 || col < 0 || row >= rows || col >= cols) {
+      return null;
+    }
+    const cell: OCRTableCell = {
+      row,
+      col,
+      rowSpan: Math.max(1, Math.min(Number(c.rowSpan) || 1, rows - row)),
+      colSpan: Math.max(1, Math.min(Number(c.colSpan) || 1, cols - col)),
+      text: typeof c.text === 'string' ? c.text : '',
+      box: cellBox,
+    };
+    if (typeof c.translatedText === 'string') cell.translatedText = c.translatedText;
+    if (typeof c.translatedLanguage === 'string') cell.translatedLanguage = c.translatedLanguage;
+    return cell;
+  }).filter((c): c is OCRTableCell => c !== null);
+  return { box, rows, cols, cells };
+};
+
+/**
+ * Restores the OCR data of a JSON export onto the current slides.
+ * Slides are matched by id; if no id matches (e.g. the images were imported again),
+ * they are matched by their exported position instead. Unmatched slides are left unchanged.
+ * Throws if the file is not an OCR export.
+ */
+export const importOcrJson = async (file: File, slides: Slide[]): Promise<OcrJsonImportResult> => {
+  const text = await readFileAsText(file);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error("無法解析 JSON 檔案");
+  }
+
+  if (!parsed || parsed.format !== OCR_JSON_FORMAT || !Array.isArray(parsed.slides)) {
+    throw new Error("這不是 TextEraser 匯出的辨識結果");
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > OCR_JSON_VERSION) {
+    throw new Error("檔案版本過新，請更新 TextEraser");
+  }
+
+  const entries = (parsed.slides as any[]).filter(e => e && typeof e === 'object');
+  const byId = new Map<string, any>(entries.filter(e => typeof e.id === 'string').map(e => [e.id, e]));
+  const matchedBy: 'id' | 'index' = slides.some(s => byId.has(s.id)) ? 'id' : 'index';
+
+  let matchedCount = 0;
+  const updated = slides.map((slide, idx) => {
+    const entry = matchedBy === 'id'
+      ? byId.get(slide.id)
+      : entries.find(e => e.index === idx);
+    if (!entry) return slide;
+
+    matchedCount++;
+    const ocrData = Array.isArray(entry.ocrData)
+      ? entry.ocrData.map(normalizeLine).filter((l: OCRResult | null): l is OCRResult => l !== null)
+      : [];
+    const ocrTables = Array.isArray(entry.ocrTables)
+      ? entry.ocrTables.map(normalizeTable).filter((t: OCRTable | null): t is OCRTable => t !== null)
+      : [];
+    return {
+      ...slide,
+      ocrData,
+      ocrTables,
+      notes: typeof entry.notes === 'string' && entry.notes ? entry.notes : slide.notes,
+    };
+  });
+
+  return { slides: updated, matchedCount, matchedBy };
+};
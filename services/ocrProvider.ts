@@ -0,0 +1,71 @@
+/**
+ * Contract between the OCR pipeline and a vision model backend.
+ *
+ * Providers only talk to their model and return the parsed JSON as-is
+ * (boxes on a 0-1000 scale). Normalization and mask filtering happen in ocrService,
+ * so every backend behaves the same.
+ */
+
+export interface RawOCRResponse {
+  lines?: any[];
+  tables?: any[];
+}
+
+export interface OCRProvider {
+  /** Extracts text lines (and tables) from the full image. */
+  recognize: (imageBase64: string) => Promise<RawOCRResponse>;
+  /** Returns tight text region boxes ({ ymin, xmin, ymax, xmax } on a 0-1000 scale) for auto-masking. */
+  detectRegions: (imageBase64: string) => Promise<any[]>;
+  /** Translates each string into the target language; returns the raw parsed answer. */
+  translate: (texts: string[], targetLanguage: string) => Promise<any>;
+}
+
+export const OCR_PROMPT = `
+      Analyze this image and extract ALL visible text.
+
+      CRITICAL INSTRUCTIONS:
+      1. Detect **INDIVIDUAL TEXT LINES** or **ISOLATED LABELS**.
+      2. For diagrams and flowcharts, do NOT merge separate text blocks. Keep them distinct.
+      3. Return precise bounding boxes (0-1000 scale).
+      4. Ensure NO text is missed, especially small labels or legends.
+      5. For each line, describe its styling in "style":
+         - color: text color as hex RRGGBB
+         - fontSize: estimated font size in points, as if this image were a 10-inch-wide slide
+         - bold / italic: true if the text is bold / italic
+         - align: horizontal alignment of the text within its block ("left", "center" or "right")
+      6. If the image contains TABLES (text arranged in a grid of rows and columns),
+         also return each table in "tables" with its bounding box, number of rows and columns,
+         and every cell with its zero-based row/col, rowSpan/colSpan for merged cells, text and bounding box.
+         Text inside tables must still be listed in "lines" as well.
+
+      Return a JSON object with "lines" and "tables".
+    `;
+
+export const DETECT_PROMPT = `
+      Identify all visible text regions in this image.
+      Return TIGHT bounding boxes (0-1000 scale) for every distinct text block.
+      Do NOT group distant labels together.
+    `;
+
+export const buildTranslatePrompt = (texts: string[], targetLanguage: string) => `
+      Translate each string in the JSON array below into ${targetLanguage}.
+      The strings are text extracted from presentation slides.
+      Keep list markers, numbers, product names and line breaks as they are.
+      Return a JSON object {"translations": [...]} with exactly ${texts.length} strings, in the same order.
+
+      ${JSON.stringify(texts)}
+    `;
+
+/**
+ * Returns the raw base64 payload of a data URL.
+ */
+export const stripDataUrl = (imageBase64: string) => imageBase64.split(',')[1] || imageBase64;
+
+/**
+ * Parses a JSON answer from a model, tolerating markdown code fences around it.
+ */
+export const parseJsonResponse = (text: string | undefined | null): any => {
+  if (!text) return null;
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : text).trim());
+};
@@ -0,0 +1,220 @@
+import { BoundingBox, OCRPageResult, OCRProviderSettings, OCRResult, OCRTable, OCRTableCell, OCRTextStyle } from "../types";
+import { OCRProvider } from "./ocrProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openaiCompatibleService";
+
+/**
+ * OCR and text detection entry points.
+ * Both go through the configured OCRProvider; everything model-independent
+ * (normalization, mask filtering) lives here.
+ */
+
+export interface DetectedRegion {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
+/**
+ * Creates the provider selected in the settings.
+ */
+export const getOCRProvider = (settings: OCRProviderSettings): OCRProvider => {
+  if (settings.type === 'openai-compatible') {
+    return createOpenAICompatibleProvider({
+      baseUrl: settings.baseUrl || '',
+      model: settings.model || '',
+      apiKey: settings.apiKey,
+    });
+  }
+  return createGeminiProvider(settings.apiKey, settings.model || undefined);
+};
+
+/**
+ * Helper to load image and get context for pixel checking
+ */
+const getMaskData = (maskBase64: string): Promise<{ data: Uint8ClampedArray; width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject("Canvas error");
+      ctx.drawImage(img, 0, 0);
+      resolve({
+        data: ctx.getImageData(0, 0, img.width, img.height).data,
+        width: img.width,
+        height: img.height
+      });
+    };
+    img.onerror = reject;
+    img.src = maskBase64;
+  });
+};
+
+/**
+ * Sanitizes the style object returned by the model.
+ * Anything missing or malformed is dropped so the exporter falls back to its defaults.
+ */
+const normalizeStyle = (raw: any): OCRTextStyle | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const style: OCRTextStyle = {};
+
+  if (typeof raw.color === 'string') {
+    const hex = raw.color.trim().replace(/^#/, '').toUpperCase();
+    if (/^[0-9A-F]{6}$/.test(hex)) style.color = hex;
+    else if (/^[0-9A-F]{3}$/.test(hex)) style.color = hex.split('').map((c: string) => c + c).join('');
+  }
+  if (typeof raw.fontSize === 'number' && raw.fontSize > 0) style.fontSize = raw.fontSize;
+  if (typeof raw.bold === 'boolean') style.bold = raw.bold;
+  if (typeof raw.italic === 'boolean') style.italic = raw.italic;
+  if (raw.align === 'left' || raw.align === 'center' || raw.align === 'right') style.align = raw.align;
+
+  return Object.keys(style).length > 0 ? style : undefined;
+};
+
+type MaskInfo = { data: Uint8ClampedArray; width: number; height: number };
+
+/**
+ * Checks whether a box (0-1000 scale) falls inside the masked (transparent) area.
+ * Looks at the center first, then double checks the corners.
+ */
+const isBoxMasked = (box: any, maskInfo: MaskInfo): boolean => {
+  // Convert 0-1000 scale to pixel coordinates
+  const xmin = (box.xmin / 1000) * maskInfo.width;
+  const xmax = (box.xmax / 1000) * maskInfo.width;
+  const ymin = (box.ymin / 1000) * maskInfo.height;
+  const ymax = (box.ymax / 1000) * maskInfo.height;
+
+  const centerX = Math.floor((xmin + xmax) / 2);
+  const centerY = Math.floor((ymin + ymax) / 2);
+
+  // Check the mask pixel at the center of the text box
+  const idx = (centerY * maskInfo.width + centerX) * 4;
+  const alpha = maskInfo.data[idx + 3];
+
+  // If Alpha is low (Transparent), it means the user masked this area.
+  if (alpha < 50) return true;
+
+  // Double check corners
+  const idxTL = (Math.floor(ymin) * maskInfo.width + Math.floor(xmin)) * 4;
+  const idxBR = (Math.floor(ymax) * maskInfo.width + Math.floor(xmax)) * 4;
+  return maskInfo.data[idxTL+3] < 50 || maskInfo.data[idxBR+3] < 50;
+};
+
+/**
+ * Converts a 0-1000 box from the model to the 0-100 percent space used by the app.
+ */
+const toPercentBox = (box: any): BoundingBox => ({
+  ymin: box.ymin / 10,
+  xmin: box.xmin / 10,
+  ymax: box.ymax / 10,
+  xmax: box.xmax / 10,
+});
+
+/**
+ * Sanitizes a table returned by the model. Returns null if it has no usable cells.
+ */
+const normalizeTable = (raw: any): OCRTable | null => {
+  if (!raw || !raw.box || !Array.isArray(raw.cells)) return null;
+
+  const cells: OCRTableCell[] = raw.cells
+    .filter((c: any) => c && c.box && Number.isInteger(c.row) && Number.isInteger(c.col) && c.row >= 0 && c.col >= 0)
+    .map((c: any) => ({
+      row: c.row,
+      col: c.col,
+      rowSpan: Math.max(1, c.rowSpan || 1),
+      colSpan: Math.max(1, c.colSpan || 1),
+      text: typeof c.text === 'string' ? c.text : '',
+      box: toPercentBox(c.box),
+    }));
+  if (cells.length === 0) return null;
+
+  // Trust the cells over the declared size
+  const rows = Math.max(raw.rows || 0, ...cells.map(c => c.row + c.rowSpan));
+  const cols = Math.max(raw.cols || 0, ...cells.map(c => c.col + c.colSpan));
+
+  return { box: toPercentBox(raw.box), rows, cols, cells };
+};
+
+const isInside = (inner: BoundingBox, outer: BoundingBox) => {
+  const cx = (inner.xmin + inner.xmax) / 2;
+  const cy = (inner.ymin + inner.ymax) / 2;
+  return cx >= outer.xmin && cx <= outer.xmax && cy >= outer.ymin && cy <= outer.ymax;
+};
+
+/**
+ * Performs OCR with the configured provider,
+ * then filters results to only include text that falls inside the masked area.
+ * Tables are returned separately, and lines inside a table are left out
+ * so the exporter does not emit them twice.
+ */
+export const performOCR = async (settings: OCRProviderSettings, originalImageBase64: string, maskBase64: string): Promise<OCRPageResult> => {
+  const provider = getOCRProvider(settings);
+
+  try {
+    // 1. Send the FULL ORIGINAL IMAGE to the model.
+    const [parsed, maskInfo] = await Promise.all([
+      provider.recognize(originalImageBase64),
+      getMaskData(maskBase64)
+    ]);
+
+    const rawLines: any[] = Array.isArray(parsed?.lines) ? parsed.lines : [];
+    const rawTables: any[] = Array.isArray(parsed?.tables) ? parsed.tables : [];
+
+    // 2. Filter Results: Keep only text and tables that intersect with the Mask
+    const tables = rawTables
+      .filter(t => t?.box && isBoxMasked(t.box, maskInfo))
+      .map(normalizeTable)
+      .filter((t): t is OCRTable => t !== null);
+
+    const lines: OCRResult[] = rawLines
+      .filter(item => item?.box && typeof item.text === 'string' && isBoxMasked(item.box, maskInfo))
+      .map(item => ({
+        text: item.text,
+        box: toPercentBox(item.box),
+        style: normalizeStyle(item.style)
+      }))
+      .filter(line => !tables.some(t => isInside(line.box, t.box)));
+
+    return { lines, tables };
+
+  } catch (error) {
+    console.error("OCR Service Error:", error);
+    throw error; // Re-throw so UI knows it failed
+  }
+};
+
+/**
+ * Takes the text of a PDF page's embedded text layer instead of calling the model.
+ * Applies the same mask filtering as performOCR, so only erased text becomes text boxes.
+ */
+export const extractTextLayerOCR = async (textLayer: OCRResult[], maskBase64: string): Promise<OCRPageResult> => {
+  const maskInfo = await getMaskData(maskBase64);
+  // isBoxMasked works on the model's 0-1000 scale
+  const lines = textLayer.filter(line => isBoxMasked({
+    ymin: line.box.ymin * 10,
+    xmin: line.box.xmin * 10,
+    ymax: line.box.ymax * 10,
+    xmax: line.box.xmax * 10,
+  }, maskInfo));
+  return { lines, tables: [] };
+};
+
+/**
+ * Detects text regions for auto-masking with the configured provider.
+ */
+export const detectTextRegions = async (settings: OCRProviderSettings, imageBase64: string): Promise<DetectedRegion[]> => {
+  try {
+    const regions = await getOCRProvider(settings).detectRegions(imageBase64);
+    return regions
+      .filter(box => box && typeof box.ymin === 'number' && typeof box.xmax === 'number')
+      .map(box => toPercentBox(box));
+  } catch (error) {
+    console.error("Auto Detect Error:", error);
+    throw error; // A failed request is not the same as a slide without text
+  }
+};
@@ -0,0 +1,78 @@
+import { OCRProvider, OCR_PROMPT, DETECT_PROMPT, buildTranslatePrompt, parseJsonResponse } from "./ocrProvider";
+
+/**
+ * OCR provider for any OpenAI-compatible vision endpoint
+ * (e.g. a local Ollama or vLLM server), so images never leave the local network.
+ */
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;  // e.g. http://localhost:11434/v1
+  model: string;    // e.g. qwen2.5vl
+  apiKey?: string;  // Optional; most local servers ignore it
+}
+
+// These endpoints have no response schema support, so the expected shape is spelled out in the prompt
+const OCR_FORMAT = `
+      Respond with JSON only, in exactly this shape:
+      {"lines":[{"text":"...","box":{"ymin":0,"xmin":0,"ymax":0,"xmax":0},
+                 "style":{"color":"RRGGBB","fontSize":0,"bold":false,"italic":false,"align":"left"}}],
+       "tables":[{"box":{"ymin":0,"xmin":0,"ymax":0,"xmax":0},"rows":0,"cols":0,
+                  "cells":[{"row":0,"col":0,"rowSpan":1,"colSpan":1,"text":"...","box":{"ymin":0,"xmin":0,"ymax":0,"xmax":0}}]}]}
+    `;
+
+const DETECT_FORMAT = `
+      Respond with JSON only, in exactly this shape:
+      {"regions":[{"ymin":0,"xmin":0,"ymax":0,"xmax":0}]}
+    `;
+
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): OCRProvider => {
+  if (!options.baseUrl) throw new Error("Base URL is missing");
+  if (!options.model) throw new Error("Model name is missing");
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  // Text-only requests (translation) pass a null image
+  const generateJson = async (imageBase64: string | null, prompt: string) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) headers['Authorization'] = `Bearer ${options.apiKey}`;
+
+    const content: any[] = [{ type: 'text', text: prompt }];
+    if (imageBase64) {
+      const imageUrl = imageBase64.startsWith('data:') ? imageBase64 : `data:image/png;base64,${imageBase64}`;
+      content.unshift({ type: 'image_url', image_url: { url: imageUrl } });
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: options.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [{ role: 'user', content }]
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Vision endpoint error ${response.status}: ${detail.slice(0, 200)}`);
+    }
+
+    const body = await response.json();
+    return parseJsonResponse(body?.choices?.[0]?.message?.content);
+  };
+
+  return {
+    recognize: async (imageBase64) => {
+      return (await generateJson(imageBase64, OCR_PROMPT + OCR_FORMAT)) || {};
+    },
+    detectRegions: async (imageBase64) => {
+      const parsed = await generateJson(imageBase64, DETECT_PROMPT + DETECT_FORMAT);
+      // Some models return the bare array despite the instructions
+      if (Array.isArray(parsed)) return parsed;
+      return Array.isArray(parsed?.regions) ? parsed.regions : [];
+    },
+    translate: async (texts, targetLanguage) => {
+      return generateJson(null, buildTranslatePrompt(texts, targetLanguage));
+    },
+  };
+};
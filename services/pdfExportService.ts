@@ -0,0 +1,398 @@
+import { BoundingBox, Slide } from "../types";
+import { computeImagePlacement, computeLetterboxColor, DEFAULT_SLIDE_SIZE, Placement, SlideSize } from "./pptxService";
+import { downloadBlob } from "./fileUtils";
+
+/**
+ * Searchable PDF export: every slide image becomes a page and the recognised text is
+ * drawn on top of it invisibly (text render mode 3), so it can be searched and copied.
+ *
+ * The file is written directly; it only needs JPEG images and a single font. The font is
+ * a tiny embedded TrueType font with one blank glyph (like Tesseract's GlyphLessFont):
+ * character codes are assigned per document, all drawn with that glyph, and mapped back to
+ * Unicode with a ToUnicode CMap, so text in any script extracts correctly without real font data.
+ */
+
+// Image a page shows: the processed result if there is one (like the PPTX export),
+// or always the original, where the invisible text lies over the text it was recognised from
+export type PdfPageImage = 'processed' | 'original';
+
+export interface PdfExportOptions {
+  slideSize: SlideSize;
+  pageImage: PdfPageImage;
+}
+
+const PT_PER_INCH = 72;
+const JPEG_QUALITY = 0.92;
+
+// Glyph space metrics (1000 = 1 em); every glyph is 1 em wide
+const FONT_ASCENT = 800;
+const FONT_DESCENT = -200;
+const FONT_NAME = 'GlyphLessFont';
+// Two-byte codes; code 0 is left unused
+const MAX_GLYPHS = 0xFFFF;
+// Entries per beginbfchar block, as limited by the CMap format
+const BFCHAR_BLOCK_SIZE = 100;
+// Glyph id of the blank glyph every character code is drawn with (0 is .notdef)
+const BLANK_GLYPH_ID = 1;
+
+interface JpegImage {
+  img: HTMLImageElement;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Loads an image and re-encodes it as an RGB JPEG for DCTDecode.
+ * Transparent areas are flattened onto white.
+ */
+const loadJpeg = (src: string): Promise<JpegImage> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas error"));
+        return;
+      }
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+      const binary = atob(canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1]);
+      const data = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+      resolve({ img, data, width: img.width, height: img.height });
+    };
+    img.onerror = (e) => reject(e);
+    img.src = src;
+  });
+};
+
+/**
+ * Minimal PDF file writer: numbered objects, streams and the cross-reference table.
+ */
+const createPdfWriter = () => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  let objectCount = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // Header; the binary comment marks the file as binary for transfer tools
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xE2, 0xE3, 0xCF, 0xD3, 0x0A]));
+
+  return {
+    /** Allocates an object number, so objects can reference ones written later. */
+    reserve: () => ++objectCount,
+
+    writeObject: (id: number, body: string) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\nendobj\n`);
+    },
+
+    writeStream: (id: number, dict: string, data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+      offsets[id] = length;
+      write(`${id} 0 obj\n<< ${dict} /Length ${bytes.length} >>\nstream\n`);
+      write(bytes);
+      write('\nendstream\nendobj\n');
+    },
+
+    finish: (rootId: number): Blob => {
+      const xrefOffset = length;
+      let xref = `xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`;
+      for (let id = 1; id <= objectCount; id++) {
+        xref += `${String(offsets[id] || 0).padStart(10, '0')} 00000 n \n`;
+      }
+      write(xref);
+      write(`trailer\n<< /Size ${objectCount + 1} /Root ${rootId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+      return new Blob(chunks, { type: 'application/pdf' });
+    },
+  };
+};
+
+/**
+ * Builds a TrueType font with two empty glyphs (.notdef and the blank glyph), each 1 em wide.
+ * It has no outlines to draw; it only exists so viewers can resolve the font.
+ */
+const buildGlyphlessFont = (): Uint8Array => {
+  const table = (size: number, fill: (view: DataView) => void) => {
+    const bytes = new Uint8Array(size);
+    fill(new DataView(bytes.buffer));
+    return bytes;
+  };
+  const utf16 = (text: string) => Array.from(text).flatMap(ch => [0, ch.charCodeAt(0)]);
+
+  const names = [1, 4, 6].map(nameId => ({ nameId, data: utf16(FONT_NAME) }));
+  const tables: [string, Uint8Array][] = [
+    ['cmap', table(36, v => {
+      // A single (3,1) format 4 subtable holding only the closing 0xFFFF segment
+      v.setUint16(2, 1);
+      v.setUint16(4, 3); v.setUint16(6, 1); v.setUint32(8, 12);
+      v.setUint16(12, 4); v.setUint16(14, 24); v.setUint16(18, 2); v.setUint16(20, 2);
+      v.setUint16(26, 0xFFFF); v.setUint16(30, 0xFFFF); v.setUint16(32, 1);
+    })],
+    ['glyf', new Uint8Array(0)],
+    ['head', table(54, v => {
+      v.setUint32(0, 0x00010000); v.setUint32(4, 0x00010000); v.setUint32(12, 0x5F0F3CF5);
+      v.setUint16(16, 0x000B); v.setUint16(18, 1000);
+      v.setInt16(36, 0); v.setInt16(38, FONT_DESCENT); v.setInt16(40, 1000); v.setInt16(42, FONT_ASCENT);
+      v.setUint16(46, 3); v.setInt16(48, 2);
+    })],
+    ['hhea', table(36, v => {
+      v.setUint32(0, 0x00010000); v.setInt16(4, FONT_ASCENT); v.setInt16(6, FONT_DESCENT);
+      v.setUint16(10, 1000); v.setInt16(16, 1000); v.setInt16(18, 1); v.setUint16(34, 2);
+    })],
+    ['hmtx', table(8, v => { v.setUint16(0, 1000); v.setUint16(4, 1000); })],
+    ['loca', new Uint8Array(6)], // Short offsets; both glyphs are empty
+    ['maxp', table(32, v => { v.setUint32(0, 0x00010000); v.setUint16(4, 2); v.setUint16(14, 2); })],
+    ['name', table(6 + names.length * 12 + names.reduce((sum, n) => sum + n.data.length, 0), v => {
+      v.setUint16(2, names.length); v.setUint16(4, 6 + names.length * 12);
+      let offset = 0;
+      names.forEach((n, i) => {
+        const record = 6 + i * 12;
+        v.setUint16(record, 3); v.setUint16(record + 2, 1); v.setUint16(record + 4, 0x409);
+        v.setUint16(record + 6, n.nameId); v.setUint16(record + 8, n.data.length); v.setUint16(record + 10, offset);
+        n.data.forEach((byte, j) => v.setUint8(6 + names.length * 12 + offset + j, byte));
+        offset += n.data.length;
+      });
+    })],
+    ['post', table(32, v => { v.setUint32(0, 0x00030000); v.setInt16(8, -100); v.setInt16(10, 50); v.setUint32(12, 1); })],
+  ];
+
+  const checksum = (bytes: Uint8Array) => {
+    let sum = 0;
+    for (let i = 0; i < bytes.length; i += 4) {
+      sum = (sum + ((bytes[i] << 24) | ((bytes[i + 1] || 0) << 16) | ((bytes[i + 2] || 0) << 8) | (bytes[i + 3] || 0))) >>> 0;
+    }
+    return sum;
+  };
+  const padded = (length: number) => (length + 3) & ~3;
+
+  const headerSize = 12 + tables.length * 16;
+  const font = new Uint8Array(headerSize + tables.reduce((sum, [, data]) => sum + padded(data.length), 0));
+  const view = new DataView(font.buffer);
+  const searchPower = 2 ** Math.floor(Math.log2(tables.length));
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tables.length);
+  view.setUint16(6, searchPower * 16);
+  view.setUint16(8, Math.log2(searchPower));
+  view.setUint16(10, tables.length * 16 - searchPower * 16);
+
+  let offset = headerSize;
+  let headOffset = 0;
+  tables.forEach(([tag, data], i) => {
+    const record = 12 + i * 16;
+    for (let j = 0; j < 4; j++) view.setUint8(record + j, tag.charCodeAt(j));
+    view.setUint32(record + 4, checksum(data));
+    view.setUint32(record + 8, offset);
+    view.setUint32(record + 12, data.length);
+    font.set(data, offset);
+    if (tag === 'head') headOffset = offset;
+    offset += padded(data.length);
+  });
+  view.setUint32(headOffset + 8, (0xB1B0AFBA - checksum(font)) >>> 0);
+  return font;
+};
+
+/**
+ * Assigns a two-byte glyph code to every distinct character used in the document.
+ */
+const createGlyphMap = () => {
+  const codes = new Map<string, number>();
+
+  return {
+    /** Hex string of glyph codes for a Tj operator. */
+    encode: (text: string) => {
+      let hex = '';
+      for (const ch of text) {
+        let code = codes.get(ch);
+        if (code === undefined) {
+          if (codes.size >= MAX_GLYPHS) continue;
+          code = codes.size + 1;
+          codes.set(ch, code);
+        }
+        hex += code.toString(16).padStart(4, '0');
+      }
+      return hex;
+    },
+
+    /** CIDToGIDMap drawing every assigned code with the blank glyph. */
+    cidToGidMap: () => {
+      const map = new Uint8Array((codes.size + 1) * 2);
+      for (let code = 1; code <= codes.size; code++) map[code * 2 + 1] = BLANK_GLYPH_ID;
+      return map;
+    },
+
+    /** ToUnicode CMap mapping every assigned code back to its character (UTF-16BE). */
+    toUnicodeCMap: () => {
+      const entries = Array.from(codes.entries()).map(([ch, code]) => {
+        let utf16 = '';
+        for (let i = 0; i < ch.length; i++) utf16 += ch.charCodeAt(i).toString(16).padStart(4, '0');
+        return `<${code.toString(16).padStart(4, '0')}> <${utf16}>`;
+      });
+      const blocks: string[] = [];
+      for (let start = 0; start < entries.length; start += BFCHAR_BLOCK_SIZE) {
+        const block = entries.slice(start, start + BFCHAR_BLOCK_SIZE);
+        blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`);
+      }
+      return [
+        '/CIDInit /ProcSet findresource begin',
+        '12 dict begin',
+        'begincmap',
+        '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+        '/CMapName /Adobe-Identity-UCS def',
+        '/CMapType 2 def',
+        '1 begincodespacerange',
+        '<0000> <FFFF>',
+        'endcodespacerange',
+        ...blocks,
+        'endcmap',
+        'CMapName currentdict /CMap defineresource pop',
+        'end',
+        'end',
+      ].join('\n');
+    },
+  };
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const hexToRgbOperands = (hex: string) =>
+  [0, 2, 4].map(i => formatNumber(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+
+/**
+ * Text operators that lay `text` invisibly over its box. Each line of a multi-line entry
+ * gets an equal share of the box height; horizontal scaling (Tz) stretches it to the box width,
+ * so selections line up with the text in the image.
+ */
+const buildInvisibleText = (
+  text: string,
+  box: BoundingBox,
+  image: Placement, // Points, from the top-left corner of the page
+  pageHeight: number,
+  encode: (text: string) => string
+): string[] => {
+  const lines = text.split('\n');
+  const left = image.x + (box.xmin / 100) * image.w;
+  const top = pageHeight - (image.y + (box.ymin / 100) * image.h);
+  const width = ((box.xmax - box.xmin) / 100) * image.w;
+  const lineHeight = (((box.ymax - box.ymin) / 100) * image.h) / lines.length;
+  if (width <= 0 || lineHeight <= 0) return [];
+
+  const fontSize = lineHeight * 1000 / (FONT_ASCENT - FONT_DESCENT);
+  const ops: string[] = [];
+  lines.forEach((line, idx) => {
+    const glyphCount = Array.from(line).length;
+    if (line.trim() === '') return;
+    const baseline = top - (idx + 1) * lineHeight - (FONT_DESCENT / 1000) * fontSize;
+    const scale = (width / (glyphCount * fontSize)) * 100;
+    ops.push(`/F1 ${formatNumber(fontSize)} Tf ${formatNumber(scale)} Tz 1 0 0 1 ${formatNumber(left)} ${formatNumber(baseline)} Tm <${encode(line)}> Tj`);
+  });
+  return ops;
+};
+
+export const downloadSearchablePDF = async (
+  slides: Slide[],
+  filename: string = "TextEraser_Presentation",
+  options: PdfExportOptions = { slideSize: DEFAULT_SLIDE_SIZE, pageImage: 'processed' }
+) => {
+  try {
+    const writer = createPdfWriter();
+    const glyphs = createGlyphMap();
+
+    const catalogId = writer.reserve();
+    const pagesId = writer.reserve();
+    const fontId = writer.reserve();
+    const cidFontId = writer.reserve();
+    const descriptorId = writer.reserve();
+    const toUnicodeId = writer.reserve();
+    const fontFileId = writer.reserve();
+    const cidToGidMapId = writer.reserve();
+
+    const pageWidth = options.slideSize.width * PT_PER_INCH;
+    const pageHeight = options.slideSize.height * PT_PER_INCH;
+    const pageIds: number[] = [];
+
+    for (const slideData of slides) {
+      const image = await loadJpeg(
+        options.pageImage === 'original' ? slideData.originalImageSrc : slideData.processedImageSrc || slideData.originalImageSrc
+      );
+      const placement = computeImagePlacement(image.width, image.height, options.slideSize);
+      const imagePt: Placement = {
+        x: placement.x * PT_PER_INCH,
+        y: placement.y * PT_PER_INCH,
+        w: placement.w * PT_PER_INCH,
+        h: placement.h * PT_PER_INCH,
+      };
+
+      const imageId = writer.reserve();
+      writer.writeStream(
+        imageId,
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+        image.data
+      );
+
+      const content: string[] = [];
+      const letterboxColor = computeLetterboxColor(image.img, placement);
+      if (letterboxColor) {
+        content.push(`q ${hexToRgbOperands(letterboxColor)} rg 0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)} re f Q`);
+      }
+      content.push(`q ${formatNumber(imagePt.w)} 0 0 ${formatNumber(imagePt.h)} ${formatNumber(imagePt.x)} ${formatNumber(pageHeight - imagePt.y - imagePt.h)} cm /Im0 Do Q`);
+
+      const textOps = [
+        ...slideData.ocrData.flatMap(item => buildInvisibleText(item.text, item.box, imagePt, pageHeight, glyphs.encode)),
+        ...slideData.ocrTables.flatMap(table => table.cells.flatMap(cell =>
+          buildInvisibleText(cell.text, cell.box, imagePt, pageHeight, glyphs.encode)
+        )),
+      ];
+      if (textOps.length > 0) content.push('BT 3 Tr', ...textOps, 'ET');
+
+      const contentId = writer.reserve();
+      writer.writeStream(contentId, '', content.join('\n'));
+
+      const pageId = writer.reserve();
+      writer.writeObject(pageId, [
+        `<< /Type /Page /Parent ${pagesId} 0 R`,
+        `/MediaBox [0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}]`,
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> /Font << /F1 ${fontId} 0 R >> >>`,
+        `/Contents ${contentId} 0 R >>`,
+      ].join('\n'));
+      pageIds.push(pageId);
+    }
+
+    writer.writeObject(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    writer.writeObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    writer.writeObject(fontId, `<< /Type /Font /Subtype /Type0 /BaseFont /${FONT_NAME} /Encoding /Identity-H /DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`);
+    writer.writeObject(cidFontId, [
+      `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${FONT_NAME}`,
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >>',
+      `/FontDescriptor ${descriptorId} 0 R /DW 1000 /CIDToGIDMap ${cidToGidMapId} 0 R >>`,
+    ].join('\n'));
+    writer.writeObject(descriptorId, [
+      `<< /Type /FontDescriptor /FontName /${FONT_NAME} /Flags 4`,
+      `/FontBBox [0 ${FONT_DESCENT} 1000 ${FONT_ASCENT}] /ItalicAngle 0`,
+      `/Ascent ${FONT_ASCENT} /Descent ${FONT_DESCENT} /CapHeight ${FONT_ASCENT} /StemV 80`,
+      `/FontFile2 ${fontFileId} 0 R >>`,
+    ].join('\n'));
+    writer.writeStream(toUnicodeId, '', glyphs.toUnicodeCMap());
+    const fontFile = buildGlyphlessFont();
+    writer.writeStream(fontFileId, `/Length1 ${fontFile.length}`, fontFile);
+    writer.writeStream(cidToGidMapId, '', glyphs.cidToGidMap());
+
+    downloadBlob(writer.finish(catalogId), `${filename}.pdf`);
+  } catch (error) {
+    console.error("PDF Generation Error:", error);
+    alert("Failed to generate PDF. See console for details.");
+  }
+};
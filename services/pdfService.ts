@@ -1,38 +1,257 @@
+import { OCRResult, OCRTextStyle, SlideSource } from "../types";
 
 // Global declaration for PDF.js loaded via CDN
 declare const pdfjsLib: any;
 
-export const convertPdfToImages = async (file: File): Promise<string[]> => {
+// Reference slide width (10 inches) in points; OCR font sizes are relative to it
+const REFERENCE_WIDTH_PT = 720;
+
+interface TextRun {
+  text: string;
+  x: number;      // Left edge, viewport pixels
+  right: number;
+  baseline: number;
+  height: number; // Font height, viewport pixels
+  ascent: number;
+  descent: number;
+  fontName: string;
+}
+
+const CJK_CHAR = /[\u2e80-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy'];
+
+/**
+ * Resolves the real font of a text item. The name is only known once the page
+ * has been rendered (fonts are loaded on demand); falls back to the declared family.
+ */
+const describeFont = (page: any, fontName: string, styles: any): Pick<OCRTextStyle, 'fontFace' | 'bold' | 'italic'> => {
+  let name = '';
+  try {
+    if (page.commonObjs.has(fontName)) name = page.commonObjs.get(fontName)?.name || '';
+  } catch {
+    // Font object not available; use the family from the text styles
+  }
+  const family = styles[fontName]?.fontFamily || '';
+  if (!name && !GENERIC_FAMILIES.includes(family)) name = family;
+
+  // Embedded subsets are named like "ABCDEF+Calibri-Bold"
+  const cleaned = name.replace(/^[A-Z]{6}\+/, '');
+  const face = cleaned.split(/[-,]/)[0].replace(/(MT|PS)$/, '').trim();
+  const font: Pick<OCRTextStyle, 'fontFace' | 'bold' | 'italic'> = {};
+  if (face) font.fontFace = face;
+  if (/bold|black|heavy|semibold|demi/i.test(cleaned)) font.bold = true;
+  if (/italic|oblique/i.test(cleaned)) font.italic = true;
+  return font;
+};
+
+/**
+ * Joins text items that continue each other on the same baseline into lines.
+ */
+const groupRuns = (runs: TextRun[]): TextRun[][] => {
+  const lines: TextRun[][] = [];
+  runs.forEach(run => {
+    const line = lines[lines.length - 1];
+    const last = line?.[line.length - 1];
+    const continues = last
+      && Math.abs(run.baseline - last.baseline) < Math.min(run.height, last.height) * 0.3
+      && run.x >= last.x
+      && run.x - last.right < Math.max(run.height, last.height) * 1.2;
+    if (continues) line.push(run);
+    else lines.push([run]);
+  });
+  return lines;
+};
+
+const joinRuns = (line: TextRun[]) => {
+  return line.reduce((text, run, idx) => {
+    if (idx === 0) return run.text;
+    const prev = line[idx - 1];
+    const gap = run.x - prev.right;
+    const needsSpace = gap > run.height * 0.15
+      && !/\s$/.test(text) && !/^\s/.test(run.text)
+      && !(CJK_CHAR.test(text.slice(-1)) && CJK_CHAR.test(run.text.charAt(0)));
+    return needsSpace ? `${text} ${run.text}` : `${text}${run.text}`;
+  }, '');
+};
+
+/**
+ * Extracts the embedded text of a rendered page as OCR lines (0-100 percent boxes).
+ * Returns an empty array for scanned pages without a text layer, and null for pages
+ * with rotated text: only horizontal text maps onto a text box, so such pages are
+ * recognised by the OCR model instead, like scanned pages.
+ */
+const extractTextLayer = async (page: any, viewport: any): Promise<OCRResult[] | null> => {
+  const content = await page.getTextContent();
+  const runs: TextRun[] = [];
+  let hasRotatedText = false;
+
+  content.items.forEach((item: any) => {
+    if (typeof item.str !== 'string' || item.str.trim() === '') return;
+    const tx = pdfjsLib.Util.transform(viewport.transform, item.transform);
+    if (Math.abs(tx[1]) > 1e-3 || Math.abs(tx[2]) > 1e-3) {
+      hasRotatedText = true;
+      return;
+    }
+
+    const height = Math.hypot(tx[2], tx[3]);
+    if (height <= 0) return;
+    const style = content.styles[item.fontName] || {};
+    const ascent = typeof style.ascent === 'number' && style.ascent > 0 ? style.ascent : 0.8;
+    const descent = typeof style.descent === 'number' ? Math.abs(style.descent) : 0.2;
+
+    runs.push({
+      text: item.str,
+      x: tx[4],
+      right: tx[4] + item.width * viewport.scale,
+      baseline: tx[5],
+      height,
+      ascent,
+      descent,
+      fontName: item.fontName,
+    });
+  });
+
+  if (hasRotatedText) return null;
+
+  return groupRuns(runs).map(line => {
+    const first = line[0];
+    const top = Math.min(...line.map(r => r.baseline - r.height * r.ascent));
+    const bottom = Math.max(...line.map(r => r.baseline + r.height * r.descent));
+    const right = Math.max(...line.map(r => r.right));
+    const fontHeight = Math.max(...line.map(r => r.height));
+
+    const style: OCRTextStyle = {
+      fontSize: Math.round((fontHeight * REFERENCE_WIDTH_PT / viewport.width) * 10) / 10,
+      ...describeFont(page, first.fontName, content.styles),
+    };
+
+    return {
+      text: joinRuns(line).trim(),
+      box: {
+        xmin: Math.max(0, (first.x / viewport.width) * 100),
+        ymin: Math.max(0, (top / viewport.height) * 100),
+        xmax: Math.min(100, (right / viewport.width) * 100),
+        ymax: Math.min(100, (bottom / viewport.height) * 100),
+      },
+      style,
+    };
+  });
+};
+
+export type PdfImageFormat = 'png' | 'jpeg';
+
+export interface PdfImportOptions {
+  pageNumbers: number[]; // 1-based, in import order
+  dpi: number;
+  format: PdfImageFormat;
+}
+
+export const DEFAULT_PDF_DPI = 150;
+
+// PDF user space is 72 units per inch
+const PDF_UNITS_PER_INCH = 72;
+// Keeps very large pages within browser canvas limits
+const MAX_CANVAS_SIDE = 8192;
+
+/**
+ * Opens a PDF for page-by-page rendering. Call `destroy()` on the result when done.
+ */
+export const openPdf = async (file: File): Promise<any> => {
   if (typeof pdfjsLib === 'undefined') {
     throw new Error("PDF.js library not loaded");
   }
-
   const arrayBuffer = await file.arrayBuffer();
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const numPages = pdf.numPages;
-  const images: string[] = [];
-
-  for (let i = 1; i <= numPages; i++) {
-    const page = await pdf.getPage(i);
-    
-    // Set scale to ensure good quality (e.g., scale 2.0 = 200% resolution)
-    // Standard slides are usually landscape.
-    const viewport = page.getViewport({ scale: 2.0 });
-    
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
-
-    if (context) {
-      await page.render({
-        canvasContext: context,
-        viewport: viewport
-      }).promise;
-
-      images.push(canvas.toDataURL('image/jpeg', 0.85));
+  return pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+};
+
+const pageScale = (page: any, dpi: number) => {
+  const base = page.getViewport({ scale: 1 });
+  const scale = dpi / PDF_UNITS_PER_INCH;
+  return Math.min(scale, MAX_CANVAS_SIDE / Math.max(base.width, base.height));
+};
+
+/**
+ * Page size in pixels when rendered at `dpi` (after the canvas size cap).
+ */
+export const getPdfPageSize = async (pdf: any, pageNumber: number, dpi: number) => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: pageScale(page, dpi) });
+  return { width: Math.floor(viewport.width), height: Math.floor(viewport.height) };
+};
+
+const renderToCanvas = async (page: any, viewport: any) => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas error");
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas;
+};
+
+/**
+ * Renders a small JPEG preview of a page, `width` pixels wide.
+ */
+export const renderPdfThumbnail = async (pdf: any, pageNumber: number, width: number = 160): Promise<string> => {
+  const page = await pdf.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const canvas = await renderToCanvas(page, page.getViewport({ scale: width / base.width }));
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+/**
+ * Parses a page range such as "1-3, 5, 8-" into sorted, unique 1-based page numbers.
+ * Returns null if the text is malformed.
+ */
+export const parsePageRange = (text: string, pageCount: number): number[] | null => {
+  const pages = new Set<number>();
+  const parts = text.split(/[,，]/).map(p => p.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  for (const part of parts) {
+    const match = part.match(/^(\d*)\s*(?:[-~–]\s*(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) return null;
+    const isRange = part.search(/[-~–]/) !== -1;
+    const from = match[1] ? parseInt(match[1]) : 1;
+    const to = isRange ? (match[2] ? parseInt(match[2]) : pageCount) : from;
+    for (let p = Math.max(1, from); p <= Math.min(pageCount, to); p++) pages.add(p);
+  }
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+/**
+ * Renders the selected pages of a PDF to images and keeps their embedded text layer,
+ * so born-digital PDFs don't need OCR. Pages are rendered one at a time and released,
+ * so long documents don't hold every canvas in memory.
+ */
+export const convertPdfToSlides = async (
+  pdf: any,
+  options: PdfImportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<SlideSource[]> => {
+  const sources: SlideSource[] = [];
+
+  for (const pageNumber of options.pageNumbers) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: pageScale(page, options.dpi) });
+    const canvas = await renderToCanvas(page, viewport);
+
+    let textLayer: OCRResult[] | null = null;
+    try {
+      textLayer = await extractTextLayer(page, viewport);
+    } catch (e) {
+      console.warn(`No text layer for page ${pageNumber}:`, e);
     }
+
+    sources.push({
+      // PNG avoids compression artifacts around text, which inpainting would otherwise smear
+      imageSrc: options.format === 'png' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.92),
+      textLayer: textLayer && textLayer.length > 0 ? textLayer : null,
+    });
+
+    page.cleanup();
+    onProgress?.(sources.length, options.pageNumbers.length);
   }
 
-  return images;
+  return sources;
 };
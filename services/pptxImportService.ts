@@ -0,0 +1,163 @@
+import { SlideSource } from "../types";
+
+// Global declaration for JSZip loaded via CDN
+declare const JSZip: any;
+
+/**
+ * Imports a PPTX deck whose slides are (mostly) one big picture, e.g. decks
+ * exported from PDF or screenshots. Each slide's largest picture becomes the
+ * slide image; its speaker notes are kept for re-export.
+ */
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const NS = {
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+};
+
+// Formats the browser can draw onto a canvas (EMF/WMF/TIFF are skipped)
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+};
+
+export const isPptxFile = (file: File) =>
+  file.type === PPTX_MIME_TYPE || file.name.toLowerCase().endsWith('.pptx');
+
+const parseXml = async (zip: any, path: string): Promise<Document | null> => {
+  const entry = zip.file(path);
+  if (!entry) return null;
+  return new DOMParser().parseFromString(await entry.async('string'), 'application/xml');
+};
+
+/**
+ * Resolves a relationship target relative to the part that references it.
+ */
+const resolvePath = (partPath: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = partPath.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+const relsPath = (partPath: string) => {
+  const idx = partPath.lastIndexOf('/');
+  return `${partPath.slice(0, idx)}/_rels/${partPath.slice(idx + 1)}.rels`;
+};
+
+interface Relationship {
+  type: string;   // Last segment of the relationship type, e.g. "image"
+  target: string; // Zip path
+}
+
+const readRelationships = async (zip: any, partPath: string): Promise<Map<string, Relationship>> => {
+  const rels = new Map<string, Relationship>();
+  const doc = await parseXml(zip, relsPath(partPath));
+  if (!doc) return rels;
+  Array.from(doc.getElementsByTagNameNS(NS.rel, 'Relationship')).forEach(el => {
+    if (el.getAttribute('TargetMode') === 'External') return;
+    rels.set(el.getAttribute('Id') || '', {
+      type: (el.getAttribute('Type') || '').split('/').pop() || '',
+      target: resolvePath(partPath, el.getAttribute('Target') || ''),
+    });
+  });
+  return rels;
+};
+
+/**
+ * Finds the relationship id of the largest picture on the slide,
+ * falling back to a picture used as the slide background.
+ */
+const findMainPicture = (slideDoc: Document): string | null => {
+  let bestId: string | null = null;
+  let bestArea = -1;
+  for (const pic of Array.from(slideDoc.getElementsByTagNameNS(NS.p, 'pic'))) {
+    const id = pic.getElementsByTagNameNS(NS.a, 'blip')[0]?.getAttributeNS(NS.r, 'embed');
+    if (!id) continue;
+    // The size lives in spPr/xfrm; other a:ext elements are extension lists
+    const ext = pic.getElementsByTagNameNS(NS.a, 'xfrm')[0]?.getElementsByTagNameNS(NS.a, 'ext')[0];
+    const area = ext ? (Number(ext.getAttribute('cx')) || 0) * (Number(ext.getAttribute('cy')) || 0) : 0;
+    if (area > bestArea) {
+      bestId = id;
+      bestArea = area;
+    }
+  }
+  if (bestId) return bestId;
+
+  const background = slideDoc.getElementsByTagNameNS(NS.p, 'bg')[0];
+  return background?.getElementsByTagNameNS(NS.a, 'blip')[0]?.getAttributeNS(NS.r, 'embed') || null;
+};
+
+/**
+ * Text of the notes body placeholder, one line per paragraph.
+ */
+const readNotes = (notesDoc: Document): string | undefined => {
+  const body = Array.from(notesDoc.getElementsByTagNameNS(NS.p, 'sp')).find(sp => {
+    const placeholder = sp.getElementsByTagNameNS(NS.p, 'ph')[0];
+    return placeholder?.getAttribute('type') === 'body';
+  });
+  if (!body) return undefined;
+  const text = Array.from(body.getElementsByTagNameNS(NS.a, 'p'))
+    .map(p => Array.from(p.getElementsByTagNameNS(NS.a, 't')).map(t => t.textContent || '').join(''))
+    .join('\n')
+    .trim();
+  return text || undefined;
+};
+
+/**
+ * Extracts one SlideSource per slide, in presentation order.
+ * Slides without a usable picture are skipped.
+ */
+export const convertPptxToSlides = async (file: File): Promise<SlideSource[]> => {
+  if (typeof JSZip === 'undefined') {
+    throw new Error("JSZip library not loaded");
+  }
+
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const presentationPath = 'ppt/presentation.xml';
+  const presentation = await parseXml(zip, presentationPath);
+  if (!presentation) throw new Error("Not a PowerPoint presentation");
+
+  const presentationRels = await readRelationships(zip, presentationPath);
+  const slidePaths = Array.from(presentation.getElementsByTagNameNS(NS.p, 'sldId'))
+    .map(el => presentationRels.get(el.getAttributeNS(NS.r, 'id') || '')?.target)
+    .filter((path): path is string => !!path);
+
+  const sources: SlideSource[] = [];
+  for (const slidePath of slidePaths) {
+    const slideDoc = await parseXml(zip, slidePath);
+    if (!slideDoc) continue;
+    const rels = await readRelationships(zip, slidePath);
+
+    const pictureId = findMainPicture(slideDoc);
+    const picture = pictureId ? rels.get(pictureId) : undefined;
+    const extension = picture?.target.split('.').pop()?.toLowerCase() || '';
+    const mimeType = IMAGE_MIME_TYPES[extension];
+    const entry = picture && mimeType ? zip.file(picture.target) : null;
+    if (!entry) {
+      console.warn(`Skipping ${slidePath}: no supported picture found`);
+      continue;
+    }
+
+    const notesRel = Array.from(rels.values()).find(rel => rel.type === 'notesSlide');
+    const notesDoc = notesRel ? await parseXml(zip, notesRel.target) : null;
+
+    sources.push({
+      imageSrc: `data:${mimeType};base64,${await entry.async('base64')}`,
+      textLayer: null,
+      notes: notesDoc ? readNotes(notesDoc) : undefined,
+    });
+  }
+
+  return sources;
+};
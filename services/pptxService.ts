@@ -1,30 +1,374 @@
-
-import { Slide, SlideStatus } from "../types";
+import { OCRResult, OCRTable, Slide, SlideSizePreset, SlideSizeSettings, TextAlign } from "../types";
+import { analyzeLayout, TextBlock, withListMarker } from "./layoutService";
 
 // Declare global PptxGenJS from CDN
 declare const PptxGenJS: any;
 
-const SLIDE_WIDTH_INCH = 10;
-const SLIDE_HEIGHT_INCH = 5.625;
+// OCR font sizes are estimated as if the image were a slide of this width
+const STYLE_REFERENCE_WIDTH_INCH = 10;
+
+// Slide size in inches
+export interface SlideSize {
+  width: number;
+  height: number;
+}
+
+// Landscape sizes of the fixed presets
+const PRESET_SIZES: Record<Exclude<SlideSizePreset, 'match-first' | 'custom'>, SlideSize> = {
+  '16:9': { width: 10, height: 5.625 },
+  '4:3': { width: 10, height: 7.5 },
+  'a4': { width: 11.69, height: 8.27 },
+  'letter': { width: 11, height: 8.5 },
+};
+
+export const DEFAULT_SLIDE_SIZE: SlideSize = PRESET_SIZES['16:9'];
+
+export const DEFAULT_SLIDE_SIZE_SETTINGS: SlideSizeSettings = {
+  preset: '16:9',
+  orientation: 'landscape',
+  customWidth: 10,
+  customHeight: 5.625,
+};
+
+// PowerPoint accepts slide sides between 1 and 56 inches
+const MIN_SLIDE_SIDE_INCH = 1;
+const MAX_SLIDE_SIDE_INCH = 56;
+
+// Name of the custom PptxGenJS layout carrying the chosen size
+const EXPORT_LAYOUT_NAME = 'TEXTERASER_LAYOUT';
 
 /**
- * Helper to load an image and get its dimensions
+ * Helper to load an image
  */
-const getImageDimensions = (base64: string): Promise<{ width: number; height: number }> => {
+const loadImage = (base64: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
-    img.onload = () => {
-      resolve({ width: img.width, height: img.height });
-    };
+    img.onload = () => resolve(img);
     img.onerror = (e) => reject(e);
     img.src = base64;
   });
 };
 
+const clampSide = (inches: number) =>
+  Math.min(Math.max(Number.isFinite(inches) ? inches : MIN_SLIDE_SIDE_INCH, MIN_SLIDE_SIDE_INCH), MAX_SLIDE_SIDE_INCH);
+
+/**
+ * Slide size for the given settings. "Match first slide" keeps the image's aspect ratio
+ * with the longer side at 10 inches; it falls back to 16:9 when there is no image.
+ */
+export const getSlideSize = (settings: SlideSizeSettings, firstImage: { width: number; height: number } | null): SlideSize => {
+  if (settings.preset === 'custom') {
+    return { width: clampSide(settings.customWidth), height: clampSide(settings.customHeight) };
+  }
+  if (settings.preset === 'match-first') {
+    if (!firstImage || firstImage.width <= 0 || firstImage.height <= 0) return DEFAULT_SLIDE_SIZE;
+    const scale = STYLE_REFERENCE_WIDTH_INCH / Math.max(firstImage.width, firstImage.height);
+    return { width: clampSide(firstImage.width * scale), height: clampSide(firstImage.height * scale) };
+  }
+  const size = PRESET_SIZES[settings.preset] || DEFAULT_SLIDE_SIZE;
+  return settings.orientation === 'portrait' ? { width: size.height, height: size.width } : size;
+};
+
+/**
+ * Like getSlideSize, loading the first slide's image when its size is needed.
+ */
+export const resolveSlideSize = async (settings: SlideSizeSettings, slides: Slide[]): Promise<SlideSize> => {
+  if (settings.preset !== 'match-first' || slides.length === 0) return getSlideSize(settings, null);
+  try {
+    const img = await loadImage(slides[0].originalImageSrc);
+    return getSlideSize(settings, { width: img.width, height: img.height });
+  } catch (e) {
+    console.warn("Could not read the first slide's size:", e);
+    return DEFAULT_SLIDE_SIZE;
+  }
+};
+
+export interface Placement {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Fits an image of the given pixel size into the slide (inches), keeping its aspect ratio.
+ */
+export const computeImagePlacement = (imgWidth: number, imgHeight: number, slideSize: SlideSize = DEFAULT_SLIDE_SIZE): Placement => {
+  const imgRatio = imgWidth / imgHeight;
+  const slideRatio = slideSize.width / slideSize.height;
+
+  if (imgRatio > slideRatio) {
+    const h = slideSize.width / imgRatio;
+    return { x: 0, y: (slideSize.height - h) / 2, w: slideSize.width, h };
+  } else {
+    const w = slideSize.height * imgRatio;
+    return { x: (slideSize.width - w) / 2, y: 0, w, h: slideSize.height };
+  }
+};
+
+// Letterbox bars thinner than this (inches) are not worth filling
+const MIN_LETTERBOX_INCH = 0.01;
+const EDGE_SAMPLE_SIZE = 64;
+
+/**
+ * Median colour (hex RRGGBB) along the image edges that touch the letterbox bars:
+ * top and bottom rows for bars above/below, left and right columns otherwise.
+ */
+const sampleEdgeColor = (img: HTMLImageElement, edges: 'horizontal' | 'vertical'): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = EDGE_SAMPLE_SIZE;
+  canvas.height = EDGE_SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, EDGE_SAMPLE_SIZE, EDGE_SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, EDGE_SAMPLE_SIZE, EDGE_SAMPLE_SIZE);
+
+  const channels: number[][] = [[], [], []];
+  const last = EDGE_SAMPLE_SIZE - 1;
+  for (let i = 0; i < EDGE_SAMPLE_SIZE; i++) {
+    const points = edges === 'horizontal' ? [[i, 0], [i, last]] : [[0, i], [last, i]];
+    points.forEach(([x, y]) => {
+      const offset = (y * EDGE_SAMPLE_SIZE + x) * 4;
+      for (let c = 0; c < 3; c++) channels[c].push(data[offset + c]);
+    });
+  }
+
+  return channels.map(values => {
+    values.sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)].toString(16).padStart(2, '0');
+  }).join('').toUpperCase();
+};
+
+/**
+ * Fill colour for the letterbox bars around a placed image, or null if the image fills the slide.
+ * Shared by the PPTX and PDF exporters.
+ */
+export const computeLetterboxColor = (img: HTMLImageElement, placement: Placement): string | null => {
+  const hasBarsY = placement.y > MIN_LETTERBOX_INCH;
+  if (!hasBarsY && placement.x <= MIN_LETTERBOX_INCH) return null;
+  return sampleEdgeColor(img, hasBarsY ? 'horizontal' : 'vertical');
+};
+
+export interface TextLayout extends Placement {
+  fontSize: number; // pt
+}
+
+/**
+ * Computes where a text box is placed on the slide (inches) and its font size,
+ * given the placement of the background image.
+ * Shared by the exporter and the layout preview in the result view.
+ * A box widened to the minimum width grows away from its aligned edge, so the text stays in place.
+ */
+export const computeTextLayout = (item: OCRResult, image: Placement, align: TextAlign = item.style?.align || 'left'): TextLayout => {
+  const relW = ((item.box.xmax - item.box.xmin) / 100) * image.w;
+  const relH = ((item.box.ymax - item.box.ymin) / 100) * image.h;
+  const relX = image.x + (item.box.xmin / 100) * image.w;
+  const relY = image.y + (item.box.ymin / 100) * image.h;
+
+  const textLen = item.text.length || 1;
+  const boxHeightPts = relH * 72;
+  const boxWidthPts = relW * 72;
+
+  const maxFontSizeByHeight = boxHeightPts * 0.75; 
+  const estimatedCharFactor = 0.8;
+  const maxFontSizeByWidth = boxWidthPts / (Math.max(textLen, 2) * estimatedCharFactor);
+
+  let fontSize: number;
+  if (item.style?.fontSize) {
+    // Prefer the size estimated during OCR, scaled to the actual image width
+    fontSize = item.style.fontSize * (image.w / STYLE_REFERENCE_WIDTH_INCH);
+    fontSize = Math.min(Math.max(fontSize, 6), 96);
+  } else {
+    fontSize = Math.min(maxFontSizeByHeight, maxFontSizeByWidth);
+    fontSize = Math.min(fontSize, 32); 
+    fontSize = Math.max(fontSize, 9); 
+  }
+
+  const w = Math.max(relW, 1.0);
+  const addedWidth = w - relW;
+  return {
+    x: align === 'center' ? relX - addedWidth / 2 : align === 'right' ? relX - addedWidth : relX,
+    y: relY,
+    w,
+    h: Math.max(relH, 0.4),
+    fontSize,
+  };
+};
+
+const CJK_CHAR = /[\u1100-\u11ff\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+/**
+ * Rough rendered width of a string in em: CJK glyphs are square, Latin ones about half as wide.
+ */
+const estimateWidthEm = (text: string) => {
+  let width = 0;
+  for (const ch of text) width += CJK_CHAR.test(ch) ? 1 : ch === ' ' ? 0.3 : 0.55;
+  return Math.max(width, 1);
+};
+
+/**
+ * Returns the entry with its translation as the text. The estimated font size is rescaled
+ * to the new string's width: single-line text keeps its line length, wrapped text keeps its area.
+ * Entries without a translation are returned unchanged.
+ */
+export const toTranslatedLine = (item: OCRResult): OCRResult => {
+  if (item.translatedText === undefined) return item;
+  const text = item.translatedText;
+  if (!item.style?.fontSize) return { ...item, text };
+
+  const ratio = estimateWidthEm(item.text) / estimateWidthEm(text);
+  const isSingleLine = !item.text.includes('\n');
+  const scale = Math.min(Math.max(isSingleLine ? ratio : Math.sqrt(ratio), 0.5), 1.2);
+  return { ...item, text, style: { ...item.style, fontSize: item.style.fontSize * scale } };
+};
+
+/**
+ * Layout of a grouped text block: the block's box, with the median font size of its lines
+ * so a paragraph keeps one consistent size.
+ */
+export const computeBlockLayout = (block: TextBlock, image: Placement): TextLayout => {
+  const sizes = block.lines.map(line => computeTextLayout(line, image).fontSize).sort((a, b) => a - b);
+  const base = computeTextLayout({ text: '', box: block.box }, image, block.align);
+  return { ...base, fontSize: sizes[Math.floor(sizes.length / 2)] ?? base.fontSize };
+};
+
+/**
+ * Converts a text block into PptxGenJS text runs: one paragraph per run,
+ * with real bullets for bullet items and the original numbering for numbered ones.
+ */
+const buildTextRuns = (block: TextBlock) => {
+  return block.paragraphs.map((p, idx) => ({
+    // Numbering keeps its original marker; auto-numbering would restart every list at "1."
+    text: withListMarker(p),
+    options: {
+      bullet: p.listType === 'bullet',
+      indentLevel: p.indentLevel,
+      bold: !!p.style?.bold,
+      italic: !!p.style?.italic,
+      color: p.style?.color || undefined,
+      fontFace: p.style?.fontFace || undefined,
+      breakLine: idx < block.paragraphs.length - 1,
+    },
+  }));
+};
+
+export interface TableLayout extends Placement {
+  colW: number[]; // inches
+  rowH: number[]; // inches
+  fontSize: number; // pt
+}
+
+/**
+ * Splits `total` into `count` track sizes, using the measured sizes of
+ * single-span cells where available and sharing the rest evenly.
+ */
+const distributeTracks = (count: number, measured: (number | null)[], total: number): number[] => {
+  const known = measured.filter((m): m is number => m !== null && m > 0);
+  const knownSum = known.reduce((a, b) => a + b, 0);
+  const unknownCount = count - known.length;
+  const fallback = unknownCount > 0 ? Math.max(total - knownSum, 0) / unknownCount : 0;
+  const sizes = measured.map(m => (m !== null && m > 0 ? m : fallback || total / count));
+  const sum = sizes.reduce((a, b) => a + b, 0) || 1;
+  return sizes.map(size => (size / sum) * total);
+};
+
+/**
+ * Computes table position (inches), column widths and row heights from the detected cell bounds.
+ */
+export const computeTableLayout = (table: OCRTable, image: Placement): TableLayout => {
+  const x = image.x + (table.box.xmin / 100) * image.w;
+  const y = image.y + (table.box.ymin / 100) * image.h;
+  const w = ((table.box.xmax - table.box.xmin) / 100) * image.w;
+  const h = ((table.box.ymax - table.box.ymin) / 100) * image.h;
+
+  const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+  const measuredCols = Array.from({ length: table.cols }, (_, c) => average(
+    table.cells.filter(cell => cell.col === c && cell.colSpan === 1).map(cell => cell.box.xmax - cell.box.xmin)
+  ));
+  const measuredRows = Array.from({ length: table.rows }, (_, r) => average(
+    table.cells.filter(cell => cell.row === r && cell.rowSpan === 1).map(cell => cell.box.ymax - cell.box.ymin)
+  ));
+
+  const colW = distributeTracks(table.cols, measuredCols, w);
+  const rowH = distributeTracks(table.rows, measuredRows, h);
+
+  const sortedRows = [...rowH].sort((a, b) => a - b);
+  const medianRowPts = (sortedRows[Math.floor(sortedRows.length / 2)] || 0.3) * 72;
+  const fontSize = Math.min(Math.max(medianRowPts * 0.5, 8), 24);
+
+  return { x, y, w, h, colW, rowH, fontSize };
+};
+
+/**
+ * Builds PptxGenJS table rows. Positions covered by a merged cell are left out,
+ * as PptxGenJS expects; positions without a detected cell become empty cells.
+ */
+const buildTableRows = (table: OCRTable, useTranslation: boolean) => {
+  const covered = new Set<string>();
+  table.cells.forEach(cell => {
+    for (let r = cell.row; r < cell.row + cell.rowSpan; r++) {
+      for (let c = cell.col; c < cell.col + cell.colSpan; c++) {
+        if (r !== cell.row || c !== cell.col) covered.add(`${r},${c}`);
+      }
+    }
+  });
+
+  const rows: any[][] = [];
+  for (let r = 0; r < table.rows; r++) {
+    const row: any[] = [];
+    for (let c = 0; c < table.cols; c++) {
+      if (covered.has(`${r},${c}`)) continue;
+      const cell = table.cells.find(cl => cl.row === r && cl.col === c);
+      row.push({
+        text: (useTranslation ? cell?.translatedText ?? cell?.text : cell?.text) ?? '',
+        options: cell ? { colspan: cell.colSpan, rowspan: cell.rowSpan } : {},
+      });
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Which text goes into the slides: the recognised original, its translation,
+// or the translation with the original in the speaker notes
+export type ExportTextContent = 'original' | 'translated' | 'both';
+
+export interface PptxExportOptions {
+  text: ExportTextContent;
+  slideSize: SlideSize;
+}
+
+/**
+ * Plain text of a slide in reading order, used for speaker notes.
+ */
+const buildNotesText = (slideData: Slide) => {
+  const blocks = analyzeLayout(slideData.ocrData).map(block => block.paragraphs.map(p => p.text).join('\n'));
+  const tables = slideData.ocrTables.map(table =>
+    Array.from({ length: table.rows }, (_, r) =>
+      table.cells.filter(c => c.row === r).sort((a, b) => a.col - b.col).map(c => c.text).join('\t')
+    ).join('\n')
+  );
+  return [...blocks, ...tables].filter(text => text.trim() !== '').join('\n\n');
+};
+
+/**
+ * Speaker notes of a slide: notes of an imported deck, plus the original text when exporting both.
+ * Also used by the text exporters.
+ */
+export const buildSpeakerNotes = (slideData: Slide, text: ExportTextContent) => {
+  return [slideData.notes, text === 'both' ? buildNotesText(slideData) : null]
+    .filter((notes): notes is string => !!notes)
+    .join('\n\n');
+};
+
 export const downloadPPTX = async (
   slides: Slide[],
-  filename: string = "TextEraser_Presentation"
+  filename: string = "TextEraser_Presentation",
+  options: PptxExportOptions = { text: 'original', slideSize: DEFAULT_SLIDE_SIZE }
 ) => {
+  const useTranslation = options.text !== 'original';
+
   if (typeof PptxGenJS === 'undefined') {
     alert("PPTX library not loaded properly.");
     return;
@@ -32,15 +376,11 @@ export const downloadPPTX = async (
 
   try {
     const pres = new PptxGenJS();
-    pres.layout = 'LAYOUT_16x9';
-
-    // Sort slides to ensure order? Array order is preserve.
-    // We filter out slides that don't have an image (shouldn't happen)
-    // We use originalImage as fallback if processed is null (though UI should handle this)
-    
-    const validSlides = slides.filter(s => s.status !== SlideStatus.ERROR);
+    pres.defineLayout({ name: EXPORT_LAYOUT_NAME, width: options.slideSize.width, height: options.slideSize.height });
+    pres.layout = EXPORT_LAYOUT_NAME;
 
-    for (const slideData of validSlides) {
+    // Every slide is exported; one whose processing failed keeps its original image
+    for (const slideData of slides) {
         // Determine which image to use. 
         // If status is DONE and we have processedImage, use it.
         // Otherwise use original (e.g. if user skipped processing or reverted).
@@ -49,63 +389,40 @@ export const downloadPPTX = async (
         const slide = pres.addSlide();
         
         // 1. Get Dimensions for Aspect Ratio Fit
-        const imgDims = await getImageDimensions(bgImage);
-        const imgRatio = imgDims.width / imgDims.height;
-        const slideRatio = SLIDE_WIDTH_INCH / SLIDE_HEIGHT_INCH;
-
-        let targetW, targetH, targetX, targetY;
-
-        if (imgRatio > slideRatio) {
-            targetW = SLIDE_WIDTH_INCH;
-            targetH = SLIDE_WIDTH_INCH / imgRatio;
-            targetX = 0;
-            targetY = (SLIDE_HEIGHT_INCH - targetH) / 2;
-        } else {
-            targetH = SLIDE_HEIGHT_INCH;
-            targetW = SLIDE_HEIGHT_INCH * imgRatio;
-            targetY = 0;
-            targetX = (SLIDE_WIDTH_INCH - targetW) / 2;
-        }
+        const img = await loadImage(bgImage);
+        const placement = computeImagePlacement(img.width, img.height, options.slideSize);
+
+        // Fill letterbox bars with the colour of the image edge next to them
+        const letterboxColor = computeLetterboxColor(img, placement);
+        if (letterboxColor) slide.background = { color: letterboxColor };
 
         // 2. Add Background Image
         slide.addImage({ 
             data: bgImage, 
-            x: targetX, 
-            y: targetY, 
-            w: targetW, 
-            h: targetH 
+            x: placement.x, 
+            y: placement.y, 
+            w: placement.w, 
+            h: placement.h 
         });
 
         // 3. Add OCR Text
-        // Only if we have OCR data
+        // Only if we have OCR data. Lines are grouped into paragraphs / lists first.
         if (slideData.ocrData && slideData.ocrData.length > 0) {
-            slideData.ocrData.forEach((item) => {
-                const relW = ((item.box.xmax - item.box.xmin) / 100) * targetW;
-                const relH = ((item.box.ymax - item.box.ymin) / 100) * targetH;
-                const relX = targetX + (item.box.xmin / 100) * targetW;
-                const relY = targetY + (item.box.ymin / 100) * targetH;
-
-                const textLen = item.text.length || 1;
-                const boxHeightPts = relH * 72;
-                const boxWidthPts = relW * 72;
-
-                const maxFontSizeByHeight = boxHeightPts * 0.75; 
-                const estimatedCharFactor = 0.8;
-                const maxFontSizeByWidth = boxWidthPts / (Math.max(textLen, 2) * estimatedCharFactor);
-
-                let fontSize = Math.min(maxFontSizeByHeight, maxFontSizeByWidth);
-                fontSize = Math.min(fontSize, 32); 
-                fontSize = Math.max(fontSize, 9); 
-
-                slide.addText(item.text, {
-                    x: relX,
-                    y: relY,
-                    w: Math.max(relW, 1.0), 
-                    h: Math.max(relH, 0.4),
-                    fontSize: fontSize, 
+            const lines = useTranslation ? slideData.ocrData.map(toTranslatedLine) : slideData.ocrData;
+            analyzeLayout(lines).forEach((block) => {
+                const layout = computeBlockLayout(block, placement);
+                const isStyled = block.lines.some(l => l.style);
+
+                slide.addText(buildTextRuns(block), {
+                    x: layout.x,
+                    y: layout.y,
+                    w: layout.w, 
+                    h: layout.h,
+                    fontSize: layout.fontSize, 
                     color: '333333',
-                    fill: { color: 'FFFFFF', transparency: 70 }, 
-                    align: 'left',
+                    // Unstyled text gets a light backdrop to stay readable over the image
+                    fill: isStyled ? undefined : { color: 'FFFFFF', transparency: 70 }, 
+                    align: block.align,
                     valign: 'top', 
                     rectRadius: 0,
                     inset: 0, 
@@ -113,6 +430,29 @@ export const downloadPPTX = async (
                 });
             });
         }
+
+        // 4. Add Tables as native (editable) tables
+        (slideData.ocrTables || []).forEach((table) => {
+            if (table.rows === 0 || table.cols === 0) return;
+            const layout = computeTableLayout(table, placement);
+
+            slide.addTable(buildTableRows(table, useTranslation), {
+                x: layout.x,
+                y: layout.y,
+                w: layout.w,
+                colW: layout.colW,
+                rowH: layout.rowH,
+                fontSize: layout.fontSize,
+                color: '333333',
+                valign: 'middle',
+                margin: 0.03,
+                border: { type: 'solid', pt: 0.5, color: 'A0A0A0' },
+            });
+        });
+
+        // 5. Speaker notes
+        const notes = buildSpeakerNotes(slideData, options.text);
+        if (notes) slide.addNotes(notes);
     }
 
     await pres.writeFile({ fileName: `${filename}.pptx` });
@@ -0,0 +1,105 @@
+import { Slide, SlideStatus } from "../types";
+import { downloadBlob, readFileAsText } from "./fileUtils";
+import { normalizeVersions } from "./versionService";
+
+const PROJECT_FORMAT = 'texteraser-project';
+const PROJECT_VERSION = 1;
+
+export const PROJECT_FILE_EXTENSION = '.teproj';
+
+/**
+ * On-disk layout of a saved project.
+ * Images are kept as data URLs so a project is a single self-contained JSON file.
+ */
+interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  activeSlideId: string | null;
+  slides: Slide[];
+}
+
+export interface LoadedProject {
+  slides: Slide[];
+  activeSlideId: string | null;
+}
+
+/**
+ * Restores a slide from a project file, filling in defaults for fields
+ * that older project files may not have.
+ */
+export const normalizeSlide = (raw: any, index: number): Slide => {
+  if (!raw || typeof raw.originalImageSrc !== 'string') {
+    throw new Error(`專案檔案中第 ${index + 1} 頁缺少原始圖片`);
+  }
+
+  let status: SlideStatus = Object.values(SlideStatus).includes(raw.status) ? raw.status : SlideStatus.PENDING;
+  // A slide that was mid-processing when saved has to be processed again
+  if (status === SlideStatus.PROCESSING) status = SlideStatus.PENDING;
+  const versions = normalizeVersions(raw.versions);
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `slide-${index}-${Date.now().toString(36)}`,
+    originalImageSrc: raw.originalImageSrc,
+    textLayer: Array.isArray(raw.textLayer) && raw.textLayer.length > 0 ? raw.textLayer : null,
+    notes: typeof raw.notes === 'string' && raw.notes ? raw.notes : null,
+    processedImageSrc: typeof raw.processedImageSrc === 'string' ? raw.processedImageSrc : null,
+    ocrData: Array.isArray(raw.ocrData) ? raw.ocrData : [],
+    ocrTables: Array.isArray(raw.ocrTables) ? raw.ocrTables : [],
+    status,
+    isRefineMode: false,
+    maskSrc: typeof raw.maskSrc === 'string' ? raw.maskSrc : null,
+    errorMessage: status === SlideStatus.ERROR && typeof raw.errorMessage === 'string' ? raw.errorMessage : null,
+    versions,
+    currentVersionId: versions.some(v => v.id === raw.currentVersionId) ? raw.currentVersionId : null,
+  };
+};
+
+/**
+ * Saves all slides (images, OCR results, status, last mask and version history) into a single project file.
+ */
+export const saveProject = (
+  slides: Slide[],
+  activeSlideId: string | null,
+  filename: string = "TextEraser_Project"
+) => {
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    activeSlideId,
+    slides: slides.map(s => ({ ...s, isRefineMode: false })),
+  };
+
+  const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+  downloadBlob(blob, `${filename}${PROJECT_FILE_EXTENSION}`);
+};
+
+/**
+ * Reads a project file created by `saveProject`.
+ * Throws if the file is not a valid project.
+ */
+export const openProject = async (file: File): Promise<LoadedProject> => {
+  const text = await readFileAsText(file);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error("無法解析專案檔案");
+  }
+
+  if (!parsed || parsed.format !== PROJECT_FORMAT || !Array.isArray(parsed.slides)) {
+    throw new Error("這不是 TextEraser 專案檔案");
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > PROJECT_VERSION) {
+    throw new Error("專案檔案版本過新，請更新 TextEraser");
+  }
+
+  const slides = (parsed.slides as any[]).map(normalizeSlide);
+  const activeSlideId = slides.some(s => s.id === parsed.activeSlideId)
+    ? parsed.activeSlideId
+    : (slides[0]?.id ?? null);
+
+  return { slides, activeSlideId };
+};
@@ -0,0 +1,243 @@
+import { Slide, SlideVersion } from "../types";
+import { normalizeSlide, LoadedProject } from "./projectService";
+import { dataUrlToBlob, blobToDataUrl } from "./fileUtils";
+
+/**
+ * Autosave of the current session to IndexedDB.
+ *
+ * Each slide is stored as its own record, with images kept as Blobs instead of
+ * base64 strings (smaller and friendlier to browser storage quotas).
+ * A single "meta" record keeps the slide order and the active slide.
+ */
+
+const DB_NAME = 'texteraser';
+const DB_VERSION = 1;
+const SLIDE_STORE = 'slides';
+const META_STORE = 'meta';
+const META_KEY = 'session';
+
+// Slide fields that hold image data URLs and are stored as Blobs
+const IMAGE_FIELDS = ['originalImageSrc', 'processedImageSrc', 'maskSrc'] as const;
+type ImageField = typeof IMAGE_FIELDS[number];
+
+// Version images are stored as Blobs as well
+const VERSION_IMAGE_FIELDS = ['processedImageSrc', 'maskSrc'] as const;
+type VersionImageField = typeof VERSION_IMAGE_FIELDS[number];
+
+interface StoredVersion {
+  fields: Omit<SlideVersion, VersionImageField>;
+  images: Partial<Record<VersionImageField, Blob | null>>;
+}
+
+interface StoredSlide {
+  id: string;
+  fields: Omit<Slide, ImageField | 'versions'>;
+  images: Partial<Record<ImageField, Blob | null>>;
+  versions?: StoredVersion[]; // Missing in sessions saved before version history existed
+}
+
+interface SessionMeta {
+  slideIds: string[];
+  activeSlideId: string | null;
+  savedAt: string;
+}
+
+export interface SessionInfo {
+  slideCount: number;
+  savedAt: string;
+}
+
+// Slides as last written to the DB. App state is updated immutably,
+// so an unchanged slide keeps its object identity and can be skipped.
+const lastSaved = new Map<string, Slide>();
+
+// False until this page has saved or cleared the session. Until then lastSaved knows nothing
+// about records left by an earlier page load, so the first save deletes every record not in use.
+let storeInSync = false;
+
+// Blobs of images encoded by the previous save, keyed by data URL.
+// A changed slide usually shares most images (e.g. older versions) with its last save.
+let encodedBlobs = new Map<string, Blob>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        return reject(new Error("IndexedDB is not available"));
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SLIDE_STORE)) db.createObjectStore(SLIDE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toStoredSlide = async (slide: Slide, encoded: Map<string, Blob>): Promise<StoredSlide> => {
+  const toBlob = async (src: string | null) => {
+    if (!src) return null;
+    const blob = encodedBlobs.get(src) || await dataUrlToBlob(src);
+    encoded.set(src, blob);
+    return blob;
+  };
+
+  const { originalImageSrc, processedImageSrc, maskSrc, versions, ...fields } = slide;
+  const sources: Record<ImageField, string | null> = { originalImageSrc, processedImageSrc, maskSrc };
+  const images: StoredSlide['images'] = {};
+
+  for (const field of IMAGE_FIELDS) {
+    images[field] = await toBlob(sources[field]);
+  }
+
+  const storedVersions: StoredVersion[] = [];
+  for (const version of versions) {
+    const { processedImageSrc, maskSrc, ...versionFields } = version;
+    storedVersions.push({
+      fields: versionFields,
+      images: { processedImageSrc: await toBlob(processedImageSrc), maskSrc: await toBlob(maskSrc) },
+    });
+  }
+
+  return { id: slide.id, fields: { ...fields, isRefineMode: false }, images, versions: storedVersions };
+};
+
+const fromStoredSlide = async (stored: StoredSlide, index: number): Promise<Slide> => {
+  const raw: any = { ...stored.fields };
+  for (const field of IMAGE_FIELDS) {
+    const blob = stored.images[field];
+    raw[field] = blob ? await blobToDataUrl(blob) : null;
+  }
+
+  raw.versions = [];
+  for (const version of stored.versions || []) {
+    const rawVersion: any = { ...version.fields };
+    for (const field of VERSION_IMAGE_FIELDS) {
+      const blob = version.images[field];
+      rawVersion[field] = blob ? await blobToDataUrl(blob) : null;
+    }
+    raw.versions.push(rawVersion);
+  }
+  return normalizeSlide(raw, index);
+};
+
+/**
+ * Writes the current slides and active slide to IndexedDB.
+ * Only slides that changed since the last save are re-encoded.
+ */
+export const saveSession = async (slides: Slide[], activeSlideId: string | null) => {
+  const db = await openDb();
+
+  // Encode images before opening the transaction; IDB transactions
+  // auto-commit as soon as they are idle across an await.
+  const changed = slides.filter(s => lastSaved.get(s.id) !== s);
+  const encoded = new Map<string, Blob>();
+  const records = await Promise.all(changed.map(s => toStoredSlide(s, encoded)));
+  const currentIds = new Set(slides.map(s => s.id));
+  const removedIds = [...lastSaved.keys()].filter(id => !currentIds.has(id));
+
+  const tx = db.transaction([SLIDE_STORE, META_STORE], 'readwrite');
+  const slideStore = tx.objectStore(SLIDE_STORE);
+  if (storeInSync) {
+    removedIds.forEach(id => slideStore.delete(id));
+  } else {
+    const keysRequest = slideStore.getAllKeys();
+    keysRequest.onsuccess = () => {
+      keysRequest.result.forEach(key => {
+        if (!currentIds.has(String(key))) slideStore.delete(key);
+      });
+    };
+  }
+  records.forEach(record => slideStore.put(record));
+
+  const meta: SessionMeta = {
+    slideIds: slides.map(s => s.id),
+    activeSlideId,
+    savedAt: new Date().toISOString(),
+  };
+  tx.objectStore(META_STORE).put(meta, META_KEY);
+
+  await transactionDone(tx);
+
+  changed.forEach(s => lastSaved.set(s.id, s));
+  removedIds.forEach(id => lastSaved.delete(id));
+  encodedBlobs = encoded;
+  storeInSync = true;
+};
+
+/**
+ * Returns a short summary of the stored session, or null if there is nothing to restore.
+ */
+export const getSessionInfo = async (): Promise<SessionInfo | null> => {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const meta = await requestToPromise<SessionMeta | undefined>(tx.objectStore(META_STORE).get(META_KEY));
+  if (!meta || meta.slideIds.length === 0) return null;
+  return { slideCount: meta.slideIds.length, savedAt: meta.savedAt };
+};
+
+/**
+ * Loads the stored session back into slides.
+ */
+export const loadSession = async (): Promise<LoadedProject | null> => {
+  const db = await openDb();
+  const tx = db.transaction([SLIDE_STORE, META_STORE], 'readonly');
+  const meta = await requestToPromise<SessionMeta | undefined>(tx.objectStore(META_STORE).get(META_KEY));
+  if (!meta || meta.slideIds.length === 0) return null;
+
+  const slideStore = tx.objectStore(SLIDE_STORE);
+  const storedSlides = await Promise.all(
+    meta.slideIds.map(id => requestToPromise<StoredSlide | undefined>(slideStore.get(id)))
+  );
+
+  const slides: Slide[] = [];
+  for (const stored of storedSlides) {
+    if (stored) slides.push(await fromStoredSlide(stored, slides.length));
+  }
+  if (slides.length === 0) return null;
+
+  // The restored slides are what is on disk now
+  lastSaved.clear();
+  slides.forEach(s => lastSaved.set(s.id, s));
+  encodedBlobs = new Map();
+
+  const activeSlideId = slides.some(s => s.id === meta.activeSlideId) ? meta.activeSlideId : slides[0].id;
+  return { slides, activeSlideId };
+};
+
+/**
+ * Removes the stored session.
+ */
+export const clearSession = async () => {
+  const db = await openDb();
+  const tx = db.transaction([SLIDE_STORE, META_STORE], 'readwrite');
+  tx.objectStore(SLIDE_STORE).clear();
+  tx.objectStore(META_STORE).delete(META_KEY);
+  await transactionDone(tx);
+  lastSaved.clear();
+  encodedBlobs = new Map();
+  storeInSync = true;
+};
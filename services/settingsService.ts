@@ -0,0 +1,84 @@
+import { OCRProviderSettings, SlideSizeSettings, TranslationSettings } from "../types";
+
+/**
+ * User settings persisted in localStorage.
+ */
+
+const OCR_SETTINGS_KEY = 'ocr_provider_settings';
+// Older versions only stored a Gemini key under this name
+const LEGACY_GEMINI_KEY = 'gemini_api_key';
+
+export const loadOCRSettings = (): OCRProviderSettings | null => {
+  const stored = localStorage.getItem(OCR_SETTINGS_KEY);
+  if (stored) {
+    try {
+      const parsed = JSON.parse(stored);
+      if (parsed && (parsed.type === 'gemini' || parsed.type === 'openai-compatible')) {
+        return { apiKey: '', ...parsed };
+      }
+    } catch (e) {
+      console.warn("Ignoring invalid OCR settings:", e);
+    }
+  }
+
+  const legacyKey = localStorage.getItem(LEGACY_GEMINI_KEY);
+  if (legacyKey) return { type: 'gemini', apiKey: legacyKey };
+  return null;
+};
+
+export const saveOCRSettings = (settings: OCRProviderSettings) => {
+  localStorage.setItem(OCR_SETTINGS_KEY, JSON.stringify(settings));
+  localStorage.removeItem(LEGACY_GEMINI_KEY);
+};
+
+export const clearOCRSettings = () => {
+  localStorage.removeItem(OCR_SETTINGS_KEY);
+  localStorage.removeItem(LEGACY_GEMINI_KEY);
+};
+
+const TRANSLATION_SETTINGS_KEY = 'translation_settings';
+
+export const loadTranslationSettings = (): TranslationSettings | null => {
+  const stored = localStorage.getItem(TRANSLATION_SETTINGS_KEY);
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed.targetLanguage === 'string' ? { targetLanguage: parsed.targetLanguage } : null;
+  } catch (e) {
+    console.warn("Ignoring invalid translation settings:", e);
+    return null;
+  }
+};
+
+/**
+ * Stores the automatic translation settings; null turns automatic translation off.
+ */
+export const saveTranslationSettings = (settings: TranslationSettings | null) => {
+  if (settings) localStorage.setItem(TRANSLATION_SETTINGS_KEY, JSON.stringify(settings));
+  else localStorage.removeItem(TRANSLATION_SETTINGS_KEY);
+};
+
+const SLIDE_SIZE_SETTINGS_KEY = 'slide_size_settings';
+const SLIDE_SIZE_PRESETS = ['16:9', '4:3', 'a4', 'letter', 'match-first', 'custom'];
+
+export const loadSlideSizeSettings = (): SlideSizeSettings | null => {
+  const stored = localStorage.getItem(SLIDE_SIZE_SETTINGS_KEY);
+  if (!stored) return null;
+  try {
+    const parsed = JSON.parse(stored);
+    if (!parsed || !SLIDE_SIZE_PRESETS.includes(parsed.preset)) return null;
+    return {
+      preset: parsed.preset,
+      orientation: parsed.orientation === 'portrait' ? 'portrait' : 'landscape',
+      customWidth: Number(parsed.customWidth) || 10,
+      customHeight: Number(parsed.customHeight) || 5.625,
+    };
+  } catch (e) {
+    console.warn("Ignoring invalid slide size settings:", e);
+    return null;
+  }
+};
+
+export const saveSlideSizeSettings = (settings: SlideSizeSettings) => {
+  localStorage.setItem(SLIDE_SIZE_SETTINGS_KEY, JSON.stringify(settings));
+};
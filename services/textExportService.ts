@@ -0,0 +1,250 @@
+import { OCRTable, OCRTableCell, Slide } from "../types";
+import { analyzeLayout, TextBlock, withListMarker } from "./layoutService";
+import { buildSpeakerNotes, ExportTextContent, toTranslatedLine } from "./pptxService";
+import { downloadBlob } from "./fileUtils";
+
+// Global declaration for JSZip loaded via CDN
+declare const JSZip: any;
+
+/**
+ * Text-only exports of the deck: Markdown with one section per slide and a DOCX
+ * with a heading per slide. Text blocks, lists and tables follow the same layout
+ * analysis as the PPTX export.
+ */
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+interface SlideText {
+  number: number; // 1-based
+  blocks: TextBlock[];
+  tables: { table: OCRTable; grid: string[][] }[];
+  notes: string;
+}
+
+const cellText = (cell: OCRTableCell, useTranslation: boolean) =>
+  (useTranslation ? cell.translatedText ?? cell.text : cell.text);
+
+/**
+ * Lays a table out as a full rows × cols grid of cell texts.
+ * Positions covered by merged cells are left empty.
+ */
+const tableGrid = (table: OCRTable, useTranslation: boolean): string[][] => {
+  const grid = Array.from({ length: table.rows }, () => Array.from({ length: table.cols }, () => ''));
+  table.cells.forEach(cell => {
+    if (grid[cell.row] && cell.col < table.cols) grid[cell.row][cell.col] = cellText(cell, useTranslation);
+  });
+  return grid;
+};
+
+const collectSlideText = (slides: Slide[], text: ExportTextContent): SlideText[] => {
+  const useTranslation = text !== 'original';
+  return slides.map((slide, idx) => ({
+    number: idx + 1,
+    blocks: analyzeLayout(useTranslation ? slide.ocrData.map(toTranslatedLine) : slide.ocrData),
+    tables: slide.ocrTables
+      .filter(table => table.rows > 0 && table.cols > 0)
+      .map(table => ({ table, grid: tableGrid(table, useTranslation) })),
+    notes: buildSpeakerNotes(slide, text),
+  }));
+};
+
+// --- Markdown ---
+
+const escapeTableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+
+// Numbering markers Markdown itself understands; others (a., (1), 一、) are kept as text in a bullet item
+const MARKDOWN_NUMBER_MARKER = /^\d{1,9}[.)]$/;
+
+const blockToMarkdown = (block: TextBlock): string => {
+  const isList = block.paragraphs.some(p => p.listType);
+  return block.paragraphs.map(p => {
+    const indent = '  '.repeat(p.indentLevel);
+    if (p.listType === 'number') {
+      const item = withListMarker(p).replace(/\n/g, ' ');
+      return MARKDOWN_NUMBER_MARKER.test(p.marker || '') ? `${indent}${item}` : `${indent}- ${item}`;
+    }
+    if (p.listType === 'bullet') return `${indent}- ${p.text.replace(/\n/g, ' ')}`;
+    // Markdown needs a trailing double space for a line break inside a paragraph
+    return p.text.replace(/\n/g, '  \n');
+  }).join(isList ? '\n' : '\n\n');
+};
+
+const tableToMarkdown = (grid: string[][]): string => {
+  const row = (cells: string[]) => `| ${cells.map(escapeTableCell).join(' | ')} |`;
+  const [header, ...body] = grid;
+  return [row(header), row(header.map(() => '---')), ...body.map(row)].join('\n');
+};
+
+export const buildMarkdown = (slides: Slide[], text: ExportTextContent = 'original'): string => {
+  return collectSlideText(slides, text).map(slide => {
+    const parts = [
+      `## 第 ${slide.number} 頁`,
+      ...slide.blocks.map(blockToMarkdown),
+      ...slide.tables.map(t => tableToMarkdown(t.grid)),
+    ];
+    if (slide.notes) {
+      parts.push(`> **備忘稿**\n${slide.notes.split('\n').map(line => `> ${line}`).join('\n')}`);
+    }
+    return parts.filter(part => part.trim() !== '').join('\n\n');
+  }).join('\n\n') + '\n';
+};
+
+export const downloadMarkdown = (slides: Slide[], filename: string = "TextEraser_Presentation", text: ExportTextContent = 'original') => {
+  const blob = new Blob([buildMarkdown(slides, text)], { type: 'text/markdown;charset=utf-8' });
+  downloadBlob(blob, `${filename}.md`);
+};
+
+// --- DOCX ---
+
+// Control characters are not allowed in XML 1.0
+const escapeXml = (text: string) =>
+  text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A4 with 1-inch margins, in twentieths of a point
+const PAGE_WIDTH_TWIPS = 11906;
+const PAGE_HEIGHT_TWIPS = 16838;
+const MARGIN_TWIPS = 1440;
+const TEXT_WIDTH_TWIPS = PAGE_WIDTH_TWIPS - 2 * MARGIN_TWIPS;
+const LIST_INDENT_TWIPS = 360;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/**
+ * A run of text; line breaks and tabs inside the text become <w:br/> and <w:tab/>.
+ */
+const docxRun = (text: string, style: RunStyle = {}) => {
+  const props = `${style.bold ? '<w:b/>' : ''}${style.italic ? '<w:i/>' : ''}`;
+  const content = text.split('\n')
+    .map(line => line.split('\t').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>'))
+    .join('<w:br/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${content}</w:r>`;
+};
+
+const docxParagraph = (runs: string, props: string = '') =>
+  `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+
+const blockToDocx = (block: TextBlock): string => {
+  const jc = block.align === 'left' ? '' : `<w:jc w:val="${block.align}"/>`;
+  return block.paragraphs.map(p => {
+    const style = { bold: p.style?.bold, italic: p.style?.italic };
+    if (!p.listType) return docxParagraph(docxRun(p.text, style), jc);
+    const marker = p.listType === 'number' ? `${p.marker || ''}\t` : '•\t';
+    const left = LIST_INDENT_TWIPS * (p.indentLevel + 1);
+    return docxParagraph(docxRun(marker) + docxRun(p.text, style), `<w:ind w:left="${left}" w:hanging="${LIST_INDENT_TWIPS}"/>`);
+  }).join('');
+};
+
+/**
+ * A Word table; merged cells use gridSpan (columns) and vMerge (rows).
+ */
+const tableToDocx = (table: OCRTable, grid: string[][]): string => {
+  const colWidth = Math.floor(TEXT_WIDTH_TWIPS / table.cols);
+  const anchorAt = (r: number, c: number) => table.cells.find(cell => cell.row === r && cell.col === c);
+  // A cell spanning down into row r from a row above, starting at column c
+  const mergedFromAbove = (r: number, c: number) =>
+    table.cells.find(cell => cell.col === c && cell.row < r && r < cell.row + cell.rowSpan);
+
+  const cell = (content: string, colSpan: number, vMerge: 'restart' | 'continue' | null) => {
+    const props = [
+      `<w:tcW w:w="${colWidth * colSpan}" w:type="dxa"/>`,
+      colSpan > 1 ? `<w:gridSpan w:val="${colSpan}"/>` : '',
+      vMerge === 'restart' ? '<w:vMerge w:val="restart"/>' : vMerge === 'continue' ? '<w:vMerge/>' : '',
+    ].join('');
+    return `<w:tc><w:tcPr>${props}</w:tcPr>${docxParagraph(content)}</w:tc>`;
+  };
+
+  const rows = grid.map((cells, r) => {
+    const tcs: string[] = [];
+    for (let c = 0; c < table.cols;) {
+      const anchor = anchorAt(r, c);
+      const above = anchor ? undefined : mergedFromAbove(r, c);
+      const colSpan = Math.max(1, Math.min((anchor || above)?.colSpan || 1, table.cols - c));
+      if (anchor) tcs.push(cell(docxRun(cells[c]), colSpan, anchor.rowSpan > 1 ? 'restart' : null));
+      else tcs.push(cell('', colSpan, above ? 'continue' : null));
+      c += colSpan;
+    }
+    return `<w:tr>${tcs.join('')}</w:tr>`;
+  });
+
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="A0A0A0"/>`;
+  return [
+    '<w:tbl>',
+    `<w:tblPr><w:tblW w:w="${colWidth * table.cols}" w:type="dxa"/>`,
+    `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>`,
+    `<w:tblGrid>${`<w:gridCol w:w="${colWidth}"/>`.repeat(table.cols)}</w:tblGrid>`,
+    ...rows,
+    '</w:tbl>',
+    // Word needs a paragraph between consecutive tables
+    docxParagraph(''),
+  ].join('');
+};
+
+const buildDocumentXml = (slides: SlideText[]) => {
+  const body = slides.map(slide => [
+    docxParagraph(docxRun(`第 ${slide.number} 頁`), '<w:pStyle w:val="Heading1"/>'),
+    ...slide.blocks.map(blockToDocx),
+    ...slide.tables.map(t => tableToDocx(t.table, t.grid)),
+    slide.notes
+      ? docxParagraph(docxRun('備忘稿'), '<w:pStyle w:val="Heading2"/>') + docxParagraph(docxRun(slide.notes, { italic: true }))
+      : '',
+  ].join('')).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>'
+    + body
+    + `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH_TWIPS}" w:h="${PAGE_HEIGHT_TWIPS}"/>`
+    + `<w:pgMar w:top="${MARGIN_TWIPS}" w:right="${MARGIN_TWIPS}" w:bottom="${MARGIN_TWIPS}" w:left="${MARGIN_TWIPS}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`
+    + '</w:body></w:document>';
+};
+
+const headingStyle = (level: number, size: number) =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+  + `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>`
+  + `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+  + '<w:docDefaults><w:rPrDefault><w:rPr><w:sz w:val="22"/></w:rPr></w:rPrDefault>'
+  + '<w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>'
+  + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+  + headingStyle(1, 32)
+  + headingStyle(2, 24)
+  + '</w:styles>';
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+  + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+  + '</Types>';
+
+const relationshipsXml = (type: string, target: string) => '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`
+  + '</Relationships>';
+
+export const downloadDOCX = async (slides: Slide[], filename: string = "TextEraser_Presentation", text: ExportTextContent = 'original') => {
+  if (typeof JSZip === 'undefined') {
+    alert("JSZip library not loaded properly.");
+    return;
+  }
+
+  try {
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+    zip.file('_rels/.rels', relationshipsXml('officeDocument', 'word/document.xml'));
+    zip.file('word/_rels/document.xml.rels', relationshipsXml('styles', 'styles.xml'));
+    zip.file('word/styles.xml', STYLES_XML);
+    zip.file('word/document.xml', buildDocumentXml(collectSlideText(slides, text)));
+
+    const blob = await zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE });
+    downloadBlob(blob, `${filename}.docx`);
+  } catch (error) {
+    console.error("DOCX Generation Error:", error);
+    alert("Failed to generate DOCX. See console for details.");
+  }
+};
@@ -0,0 +1,109 @@
+import { OCRPageResult, OCRProviderSettings, OCRResult, Slide } from "../types";
+import { getOCRProvider } from "./ocrService";
+
+/**
+ * Translation of recognised text. The translation is stored next to the original
+ * (`translatedText`), so the exporter can output either version or both.
+ *
+ * Any backend can be plugged in by implementing Translator; by default the
+ * configured OCR model is used.
+ */
+
+export interface Translator {
+  /** Returns one translation per input string, in the same order. */
+  translate: (texts: string[], targetLanguage: string) => Promise<string[]>;
+}
+
+export const TRANSLATION_LANGUAGES: { value: string; label: string }[] = [
+  { value: 'English', label: '英文' },
+  { value: 'Traditional Chinese', label: '繁體中文' },
+  { value: 'Simplified Chinese', label: '簡體中文' },
+  { value: 'Japanese', label: '日文' },
+  { value: 'Korean', label: '韓文' },
+  { value: 'French', label: '法文' },
+  { value: 'German', label: '德文' },
+  { value: 'Spanish', label: '西班牙文' },
+];
+
+// Strings per request; keeps answers well within the model's output limit
+const CHUNK_SIZE = 40;
+
+/**
+ * Translator backed by the configured OCR model.
+ */
+export const createModelTranslator = (settings: OCRProviderSettings): Translator => {
+  const provider = getOCRProvider(settings);
+  return {
+    translate: async (texts, targetLanguage) => {
+      const parsed = await provider.translate(texts, targetLanguage);
+      const translations = Array.isArray(parsed) ? parsed : parsed?.translations;
+      if (!Array.isArray(translations) || translations.length !== texts.length) {
+        throw new Error("翻譯結果的數量與原文不符");
+      }
+      return translations.map((t: any, i: number) => typeof t === 'string' ? t : texts[i]);
+    },
+  };
+};
+
+/**
+ * Translates `texts` in chunks, skipping blank strings (returned unchanged).
+ */
+const translateAll = async (translator: Translator, texts: string[], targetLanguage: string): Promise<string[]> => {
+  const result = [...texts];
+  const pending = texts.map((text, idx) => ({ text, idx })).filter(t => t.text.trim() !== '');
+
+  for (let start = 0; start < pending.length; start += CHUNK_SIZE) {
+    const chunk = pending.slice(start, start + CHUNK_SIZE);
+    const translations = await translator.translate(chunk.map(t => t.text), targetLanguage);
+    chunk.forEach((t, i) => { result[t.idx] = translations[i]; });
+  }
+  return result;
+};
+
+type TranslatableItem = { text: string; translatedText?: string; translatedLanguage?: string };
+
+/**
+ * True if the item has a translation into `targetLanguage`.
+ * A translation without a recorded language (older projects) is accepted for any language.
+ */
+const isTranslatedTo = (item: TranslatableItem, targetLanguage: string) =>
+  item.translatedText !== undefined && (item.translatedLanguage === undefined || item.translatedLanguage === targetLanguage);
+
+/**
+ * Returns the page with `translatedText` filled in for every line and table cell
+ * that isn't translated into `targetLanguage` yet (existing, possibly hand-edited
+ * translations into that language are kept).
+ */
+export const translatePage = async (
+  translator: Translator,
+  page: OCRPageResult,
+  targetLanguage: string
+): Promise<OCRPageResult> => {
+  const items = [...page.lines, ...page.tables.flatMap(t => t.cells)];
+  const pending = items.filter(item => !isTranslatedTo(item, targetLanguage));
+  const translated = await translateAll(translator, pending.map(item => item.text), targetLanguage);
+  const translations = new Map<object, string>(pending.map((item, i) => [item, translated[i]]));
+  const withTranslation = <T extends TranslatableItem>(item: T): T =>
+    translations.has(item) ? { ...item, translatedText: translations.get(item), translatedLanguage: targetLanguage } : item;
+
+  return {
+    lines: page.lines.map(withTranslation),
+    tables: page.tables.map(table => ({ ...table, cells: table.cells.map(withTranslation) })),
+  };
+};
+
+/**
+ * True if the slide has text without a translation into `targetLanguage`.
+ */
+export const needsTranslation = (slide: Slide, targetLanguage: string) => {
+  const isUntranslated = (item: TranslatableItem) => item.text.trim() !== '' && !isTranslatedTo(item, targetLanguage);
+  return slide.ocrData.some(isUntranslated) || slide.ocrTables.some(t => t.cells.some(isUntranslated));
+};
+
+/**
+ * Drops the translation of an entry, e.g. after its original text was edited.
+ */
+export const withoutTranslation = (item: OCRResult): OCRResult => {
+  const { translatedText, translatedLanguage, ...rest } = item;
+  return rest;
+};
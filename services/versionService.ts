@@ -0,0 +1,90 @@
+import { InpaintMode, OCRResult, OCRTable, Slide, SlideVersion } from "../types";
+
+/**
+ * Per-slide version history: every processing pass (and every manual snapshot)
+ * is kept so an earlier result can be compared and restored later.
+ */
+
+// Oldest versions are dropped beyond this, to keep sessions and project files reasonable
+export const MAX_VERSIONS = 20;
+
+export const INPAINT_MODE_LABELS: Record<InpaintMode, string> = {
+  chart: '純色/圖表',
+  photo: '真實照片',
+  texture: '紋理/材質',
+};
+
+const generateVersionId = () => 'v-' + Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+
+interface VersionContent {
+  processedImageSrc: string;
+  maskSrc: string | null;
+  ocrData: OCRResult[];
+  ocrTables: OCRTable[];
+}
+
+/**
+ * Returns the slide fields that add `content` as the newest (and current) version.
+ */
+export const addVersion = (
+  slide: Slide,
+  content: VersionContent,
+  mode: InpaintMode | null,
+  name?: string
+): Pick<Slide, 'versions' | 'currentVersionId'> => {
+  const version: SlideVersion = {
+    id: generateVersionId(),
+    name: name || `版本 ${slide.versions.length + 1}`,
+    createdAt: new Date().toISOString(),
+    mode,
+    ...content,
+  };
+  return {
+    versions: [...slide.versions, version].slice(-MAX_VERSIONS),
+    currentVersionId: version.id,
+  };
+};
+
+/**
+ * Returns the slide fields that bring back the given version, or null if it doesn't exist.
+ */
+export const restoreVersion = (slide: Slide, versionId: string): Partial<Slide> | null => {
+  const version = slide.versions.find(v => v.id === versionId);
+  if (!version) return null;
+  return {
+    processedImageSrc: version.processedImageSrc,
+    maskSrc: version.maskSrc,
+    ocrData: version.ocrData,
+    ocrTables: version.ocrTables,
+    currentVersionId: version.id,
+    isRefineMode: false,
+  };
+};
+
+export const renameVersion = (slide: Slide, versionId: string, name: string): Pick<Slide, 'versions'> => ({
+  versions: slide.versions.map(v => v.id === versionId ? { ...v, name } : v),
+});
+
+export const deleteVersion = (slide: Slide, versionId: string): Pick<Slide, 'versions' | 'currentVersionId'> => ({
+  versions: slide.versions.filter(v => v.id !== versionId),
+  currentVersionId: slide.currentVersionId === versionId ? null : slide.currentVersionId,
+});
+
+/**
+ * Restores versions from a project/session file, dropping entries without an image.
+ */
+export const normalizeVersions = (raw: any): SlideVersion[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(v => v && typeof v.processedImageSrc === 'string')
+    .map((v, i): SlideVersion => ({
+      id: typeof v.id === 'string' && v.id ? v.id : `v-${i}-${Date.now().toString(36)}`,
+      name: typeof v.name === 'string' ? v.name : `版本 ${i + 1}`,
+      createdAt: typeof v.createdAt === 'string' ? v.createdAt : new Date().toISOString(),
+      processedImageSrc: v.processedImageSrc,
+      maskSrc: typeof v.maskSrc === 'string' ? v.maskSrc : null,
+      mode: v.mode in INPAINT_MODE_LABELS ? v.mode : null,
+      ocrData: Array.isArray(v.ocrData) ? v.ocrData : [],
+      ocrTables: Array.isArray(v.ocrTables) ? v.ocrTables : [],
+    }));
+};
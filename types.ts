@@ -12,23 +12,135 @@ export enum SlideStatus {
   ERROR = 'ERROR'
 }
 
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface OCRTextStyle {
+  color?: string;     // Hex RRGGBB without '#'
+  fontSize?: number;  // Estimated size in pt, relative to a 10-inch-wide slide
+  bold?: boolean;
+  italic?: boolean;
+  align?: TextAlign;
+  fontFace?: string;  // Font family, known for text taken from a PDF text layer
+}
+
+// Coordinates are percentages (0-100) of the image size
+export interface BoundingBox {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
 export interface OCRResult {
   text: string;
-  box: {
-    ymin: number;
-    xmin: number;
-    ymax: number;
-    xmax: number;
-  };
+  box: BoundingBox;
+  style?: OCRTextStyle;
+  translatedText?: string; // Translation of `text`; cleared when the original is edited
+  translatedLanguage?: string; // Target language of `translatedText`; missing in projects saved before it was recorded
+}
+
+export interface OCRTableCell {
+  row: number;     // Zero-based
+  col: number;     // Zero-based
+  rowSpan: number;
+  colSpan: number;
+  text: string;
+  box: BoundingBox;
+  translatedText?: string;
+  translatedLanguage?: string;
+}
+
+export interface OCRTable {
+  box: BoundingBox;
+  rows: number;
+  cols: number;
+  cells: OCRTableCell[];
+}
+
+// Everything recognised on one slide
+export interface OCRPageResult {
+  lines: OCRResult[];
+  tables: OCRTable[];
+}
+
+export type OCRProviderType = 'gemini' | 'openai-compatible';
+
+export interface OCRProviderSettings {
+  type: OCRProviderType;
+  apiKey: string;     // Required for Gemini, optional for OpenAI-compatible servers
+  baseUrl?: string;   // OpenAI-compatible only, e.g. http://localhost:11434/v1
+  model?: string;     // Empty = provider default
+}
+
+export interface TranslationSettings {
+  targetLanguage: string; // Language name passed to the translator, e.g. "English"
+}
+
+// File type produced by the export dialog
+export type ExportFormat = 'pptx' | 'pdf' | 'markdown' | 'docx' | 'json';
+
+export type SlideSizePreset = '16:9' | '4:3' | 'a4' | 'letter' | 'match-first' | 'custom';
+
+export type SlideOrientation = 'landscape' | 'portrait';
+
+// Page size of the exported deck
+export interface SlideSizeSettings {
+  preset: SlideSizePreset;
+  orientation: SlideOrientation; // Applies to the fixed presets
+  customWidth: number;  // Inches, 'custom' only
+  customHeight: number; // Inches, 'custom' only
+}
+
+// How the background behind erased text is reconstructed
+export type InpaintMode = 'chart' | 'photo' | 'texture';
+
+// A saved result of one processing pass (or a manual snapshot)
+export interface SlideVersion {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  processedImageSrc: string;
+  maskSrc: string | null;
+  mode: InpaintMode | null; // Null for manual snapshots
+  ocrData: OCRResult[];
+  ocrTables: OCRTable[];
+}
+
+// An imported page: its image, the embedded text of born-digital PDFs and PPTX speaker notes
+export interface SlideSource {
+  imageSrc: string;
+  textLayer: OCRResult[] | null;
+  notes?: string; // Speaker notes of an imported PPTX slide
 }
 
 export interface Slide {
   id: string;
   originalImageSrc: string;
+  textLayer: OCRResult[] | null; // Embedded PDF text; used instead of OCR when present
+  notes: string | null; // Speaker notes carried over from an imported deck
   processedImageSrc: string | null; // Null if not processed yet
   ocrData: OCRResult[];
+  ocrTables: OCRTable[];
   status: SlideStatus;
   isRefineMode: boolean; // If true, next process is "Refine" not "OCR+Fill"
+  maskSrc: string | null; // Last confirmed mask (white = keep, transparent = erase)
+  errorMessage: string | null; // Set when status is ERROR
+  versions: SlideVersion[]; // Oldest first
+  currentVersionId: string | null; // Version currently shown, null if none (e.g. reverted)
+}
+
+export type BatchJobStage = 'queued' | 'detecting' | 'ocr' | 'translating' | 'inpainting' | 'done' | 'error' | 'cancelled';
+
+export interface BatchJob {
+  slideId: string;
+  stage: BatchJobStage;
+  progress?: number; // 0-1 while inpainting
+  error?: string;
+}
+
+export interface BatchState {
+  jobs: BatchJob[];
+  isPaused: boolean;
 }
 
 export interface AppState {
@@ -38,5 +150,9 @@ export interface AppState {
   
   isGlobalProcessing: boolean;
   globalStatusText: string;
-  apiKey: string; // Store the user provided API key
+  globalProgress: number | null; // 0-1 while inpainting a single slide, null if unknown
+  ocrSettings: OCRProviderSettings | null; // OCR backend chosen by the user (null until configured)
+  translation: TranslationSettings | null; // Translate text right after OCR when set
+  slideSize: SlideSizeSettings; // Page size used for export and the layout preview
+  batch: BatchState | null; // Progress of the running batch job, if any
 }